@@ -0,0 +1,212 @@
+import { Container, Graphics, Text } from "pixi.js";
+import { UIButton, UIColors } from "../../engine/ui";
+import { ACTION_LABELS, INPUT_ACTIONS } from "../../engine/input/keyBindings";
+import type { InputAction, KeyChord } from "../../engine/input/keyBindings";
+import type { InputController } from "../../engine/input/InputController";
+import { engine } from "../getEngine";
+import type { MainScreen } from "../screens/MainScreen";
+
+/** Layout of the popup panel */
+const PADDING = 16;
+const ROW_HEIGHT = 30;
+const LABEL_WIDTH = 230;
+const SLOT_WIDTH = 110;
+const SLOT_SPACING = 6;
+const COLUMN_WIDTH = LABEL_WIDTH + 2 * (SLOT_WIDTH + SLOT_SPACING);
+const COLUMNS = 2;
+const PANEL_WIDTH = COLUMNS * COLUMN_WIDTH + (COLUMNS + 1) * PADDING;
+
+/** Chords each action can have; the second is for an alternative such as arrow keys */
+const SLOTS_PER_ACTION = 2;
+
+/** Keys that cancel or clear a slot while waiting for a new chord */
+const CANCEL_CHORD = "Escape";
+const CLEAR_CHORD = "Backspace";
+
+/**
+ * Popup listing every key action, where each of its chords can be rebound.
+ * Actions sharing a chord are shown in red, as one key press triggers them all.
+ */
+export class KeyBindingsPopup extends Container {
+    private dimmer = new Graphics();
+    private panel = new Container();
+    private background = new Graphics();
+    private rows = new Container();
+    private input: InputController | null = null;
+    /** Slot waiting for a new chord, or null when not rebinding */
+    private editing: { action: InputAction; slot: number } | null = null;
+    /** Result of the last rebinding, shown under the list */
+    private status = 'Click a key to change it.';
+
+    constructor() {
+        super();
+
+        // Block clicks to the screen underneath and close when clicking outside the panel
+        this.dimmer.eventMode = 'static';
+        this.dimmer.on('pointertap', () => this.close());
+        this.addChild(this.dimmer);
+
+        this.panel.eventMode = 'static';
+        this.panel.addChild(this.background, this.rows);
+        this.addChild(this.panel);
+    }
+
+    public async prepare(): Promise<void> {
+        const screen = engine().navigation.currentScreen as MainScreen | undefined;
+        this.input = screen?.getInputController() ?? null;
+        this.refresh();
+    }
+
+    /**
+     * Rebuild the list from the current bindings
+     */
+    private refresh(): void {
+        for (const child of this.rows.removeChildren()) {
+            child.destroy({ children: true });
+        }
+
+        const title = new Text({
+            text: 'Key Bindings',
+            style: { fontFamily: 'Arial', fontSize: 18, fontWeight: 'bold', fill: UIColors.white },
+        });
+        title.position.set(PADDING, PADDING);
+        this.rows.addChild(title);
+
+        const top = PADDING + title.height + PADDING;
+        const rowsPerColumn = Math.ceil(INPUT_ACTIONS.length / COLUMNS);
+        INPUT_ACTIONS.forEach((action, i) => {
+            const column = Math.floor(i / rowsPerColumn);
+            this.addActionRow(action, PADDING + column * (COLUMN_WIDTH + PADDING), top + (i % rowsPerColumn) * ROW_HEIGHT);
+        });
+
+        let y = top + rowsPerColumn * ROW_HEIGHT + PADDING / 2;
+
+        const status = new Text({
+            text: this.status,
+            style: { fontFamily: 'Arial', fontSize: 13, fill: UIColors.gray[300] },
+        });
+        status.position.set(PADDING, y);
+        this.rows.addChild(status);
+        y += status.height + PADDING;
+
+        const reset = this.addButton('Reset to Defaults', 'default', PADDING, y, () => this.resetToDefaults());
+        this.addButton('Close', 'primary', PADDING + reset.getSize().width + PADDING / 2, y, () => this.close());
+        y += reset.getSize().height + PADDING;
+
+        this.background.clear();
+        this.background.roundRect(0, 0, PANEL_WIDTH, y, 8).fill(UIColors.blue[800]);
+
+        this.resize(engine().renderer.width, engine().renderer.height);
+    }
+
+    /**
+     * Add a row for one action: its name, then a button for each chord slot
+     */
+    private addActionRow(action: InputAction, x: number, y: number): void {
+        const bindings = this.input?.bindings;
+        const chords = bindings?.getChords(action) ?? [];
+        const hasConflict = (bindings?.getConflicts(action).length ?? 0) > 0;
+
+        const label = new Text({
+            text: ACTION_LABELS[action],
+            style: { fontFamily: 'Arial', fontSize: 13, fill: hasConflict ? UIColors.red[400] : UIColors.white },
+        });
+        label.position.set(x, y + (ROW_HEIGHT - label.height) / 2);
+        this.rows.addChild(label);
+
+        for (let slot = 0; slot < SLOTS_PER_ACTION; slot++) {
+            const chord: KeyChord | undefined = chords[slot];
+            const isEditing = this.editing?.action === action && this.editing.slot === slot;
+            const isShared = chord !== undefined && (bindings?.getActions(chord).length ?? 0) > 1;
+
+            let text = chord !== undefined && bindings ? bindings.formatChord(chord) : '—';
+            if (isEditing) text = 'Press a key...';
+
+            const button = this.addButton(text, isShared ? 'danger' : 'default', 0, 0, () => this.startEditing(action, slot));
+            button.setSize(SLOT_WIDTH, ROW_HEIGHT - 4);
+            button.setSelected(isEditing);
+            button.setPosition(x + LABEL_WIDTH + slot * (SLOT_WIDTH + SLOT_SPACING), y + 2);
+        }
+    }
+
+    private addButton(text: string, variant: 'default' | 'primary' | 'danger', x: number, y: number, onClick: () => void): UIButton {
+        const button = new UIButton({ text, variant, onClick, interactive: true });
+        button.setPosition(x, y);
+        this.rows.addChild(button);
+        return button;
+    }
+
+    /**
+     * Wait for the next chord pressed and bind it to a slot
+     */
+    private startEditing(action: InputAction, slot: number): void {
+        if (!this.input) return;
+
+        this.editing = { action, slot };
+        this.status = `Press the new key for ${ACTION_LABELS[action]}. Esc cancels, Backspace clears.`;
+        this.input.captureNextChord(chord => this.finishEditing(chord));
+        this.refresh();
+    }
+
+    /**
+     * Put a captured chord into the slot being edited, then report any actions it is shared with
+     */
+    private finishEditing(chord: KeyChord): void {
+        const editing = this.editing;
+        const bindings = this.input?.bindings;
+        this.editing = null;
+        if (!editing || !bindings) return;
+
+        const label = ACTION_LABELS[editing.action];
+        const chords = bindings.getChords(editing.action);
+
+        if (chord === CANCEL_CHORD) {
+            this.status = 'Click a key to change it.';
+        }
+        else if (chord === CLEAR_CHORD) {
+            chords.splice(editing.slot, 1);
+            bindings.setChords(editing.action, chords);
+            this.status = `Cleared a key for ${label}.`;
+        }
+        else {
+            chords[Math.min(editing.slot, chords.length)] = chord;
+            bindings.setChords(editing.action, chords);
+
+            const others = bindings.getActions(chord).filter(other => other !== editing.action);
+            this.status = others.length > 0
+                ? `${bindings.formatChord(chord)} is also bound to ${others.map(other => ACTION_LABELS[other]).join(', ')}.`
+                : `${label} is now ${bindings.describe(editing.action)}.`;
+        }
+
+        this.refresh();
+    }
+
+    private resetToDefaults(): void {
+        this.stopEditing();
+        this.input?.bindings.resetToDefaults();
+        this.status = 'All keys reset to their defaults.';
+        this.refresh();
+    }
+
+    private stopEditing(): void {
+        this.editing = null;
+        this.input?.cancelChordCapture();
+    }
+
+    private close(): Promise<void> {
+        this.stopEditing();
+        return engine().navigation.dismissPopup();
+    }
+
+    public resize(width: number, height: number): void {
+        this.dimmer.clear();
+        this.dimmer.rect(0, 0, width, height).fill({ color: UIColors.black, alpha: 0.5 });
+
+        this.panel.x = Math.round((width - PANEL_WIDTH) / 2);
+        this.panel.y = Math.round(Math.max(PADDING, (height - this.background.height) / 2));
+    }
+
+    public async hide(): Promise<void> {
+        this.stopEditing();
+    }
+}
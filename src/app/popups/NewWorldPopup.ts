@@ -0,0 +1,123 @@
+import { Container, Graphics, Text } from "pixi.js";
+import { UIButton, UIColors } from "../../engine/ui";
+import { engine } from "../getEngine";
+import type { MainScreen } from "../screens/MainScreen";
+
+/** Layout of the popup panel */
+const PANEL_WIDTH = 360;
+const PADDING = 16;
+
+/**
+ * Popup showing the seed of the current world, for reproducing it,
+ * and generating a new world from a random or entered seed
+ */
+export class NewWorldPopup extends Container {
+    private dimmer = new Graphics();
+    private panel = new Container();
+    private background = new Graphics();
+    private rows = new Container();
+
+    constructor() {
+        super();
+
+        // Block clicks to the screen underneath and close when clicking outside the panel
+        this.dimmer.eventMode = 'static';
+        this.dimmer.on('pointertap', () => this.close());
+        this.addChild(this.dimmer);
+
+        this.panel.eventMode = 'static';
+        this.panel.addChild(this.background, this.rows);
+        this.addChild(this.panel);
+    }
+
+    public async prepare(): Promise<void> {
+        this.refresh();
+    }
+
+    /**
+     * Rebuild the panel for the current world's seed
+     */
+    private refresh(): void {
+        for (const child of this.rows.removeChildren()) {
+            child.destroy({ children: true });
+        }
+
+        const title = new Text({
+            text: 'New World',
+            style: { fontFamily: 'Arial', fontSize: 18, fontWeight: 'bold', fill: UIColors.white },
+        });
+        title.position.set(PADDING, PADDING);
+        this.rows.addChild(title);
+
+        let y = PADDING + title.height + PADDING;
+
+        const seed = this.getScreen()?.getSeed() ?? null;
+        const seedText = new Text({
+            text: seed !== null ? `Current seed: ${seed}` : 'The current world was not generated from a seed',
+            style: { fontFamily: 'Arial', fontSize: 14, fill: UIColors.gray[300], wordWrap: true, wordWrapWidth: PANEL_WIDTH - PADDING * 2 },
+        });
+        seedText.position.set(PADDING, y);
+        this.rows.addChild(seedText);
+        y += seedText.height + PADDING;
+
+        const randomButton = this.addButton('Random', 'primary', PADDING, y, () => this.generate());
+        let x = PADDING + randomButton.getSize().width + PADDING / 2;
+        const seedButton = this.addButton('From Seed...', 'primary', x, y, () => this.generateFromSeed(seed));
+        x += seedButton.getSize().width + PADDING / 2;
+        this.addButton('Close', 'default', x, y, () => this.close());
+        y += randomButton.getSize().height + PADDING;
+
+        this.background.clear();
+        this.background.roundRect(0, 0, PANEL_WIDTH, y, 8).fill(UIColors.blue[800]);
+
+        this.resize(engine().renderer.width, engine().renderer.height);
+    }
+
+    private addButton(text: string, variant: 'default' | 'primary', x: number, y: number, onClick: () => void): UIButton {
+        const button = new UIButton({ text, variant, onClick, interactive: true });
+        button.setPosition(x, y);
+        this.rows.addChild(button);
+        return button;
+    }
+
+    /**
+     * Ask for a seed, offering the current one so it can be copied, and generate a world from it
+     */
+    private async generateFromSeed(currentSeed: string | null): Promise<void> {
+        const seed = window.prompt('World seed', currentSeed ?? '')?.trim();
+        if (!seed) return;
+
+        await this.generate(seed);
+    }
+
+    /**
+     * Replace the current world with a generated one and close the popup
+     * @param seed - seed to generate from; a random one is picked if omitted
+     */
+    private async generate(seed?: string): Promise<void> {
+        this.getScreen()?.newWorld(seed);
+        await this.close();
+    }
+
+    private getScreen(): MainScreen | undefined {
+        return engine().navigation.currentScreen as MainScreen | undefined;
+    }
+
+    private close(): Promise<void> {
+        return engine().navigation.dismissPopup();
+    }
+
+    public resize(width: number, height: number): void {
+        this.dimmer.clear();
+        this.dimmer.rect(0, 0, width, height).fill({ color: UIColors.black, alpha: 0.5 });
+
+        this.panel.x = Math.round((width - PANEL_WIDTH) / 2);
+        this.panel.y = Math.round(Math.max(PADDING, (height - this.background.height) / 2));
+    }
+
+    public async hide(): Promise<void> {
+        for (const child of this.rows.removeChildren()) {
+            child.destroy({ children: true });
+        }
+    }
+}
@@ -0,0 +1,201 @@
+import { Container, Graphics, Sprite, Text, Texture } from "pixi.js";
+import { UIButton, UIColors } from "../../engine/ui";
+import { saveSlots } from "../../engine/utils/saveSlots";
+import type { SaveSlotInfo } from "../../engine/utils/saveSlots";
+import { engine } from "../getEngine";
+import type { MainScreen } from "../screens/MainScreen";
+
+/** Layout of the popup panel */
+const PANEL_WIDTH = 420;
+const PADDING = 16;
+const ROW_HEIGHT = 72;
+const THUMBNAIL_SIZE = 64;
+
+/**
+ * Popup listing saved game slots, with their thumbnails, for loading or saving
+ */
+export class SavedGamesPopup extends Container {
+    private dimmer = new Graphics();
+    private panel = new Container();
+    private background = new Graphics();
+    private rows = new Container();
+    private buttons: UIButton[] = [];
+    /** Thumbnail textures of the listed slots, which destroying the rows does not free */
+    private thumbnails: Texture[] = [];
+
+    constructor() {
+        super();
+
+        // Block clicks to the screen underneath and close when clicking outside the panel
+        this.dimmer.eventMode = 'static';
+        this.dimmer.on('pointertap', () => this.close());
+        this.addChild(this.dimmer);
+
+        this.panel.eventMode = 'static';
+        this.panel.addChild(this.background, this.rows);
+        this.addChild(this.panel);
+    }
+
+    public async prepare(): Promise<void> {
+        await this.refresh();
+    }
+
+    /**
+     * Rebuild the list from the slots currently in storage
+     */
+    private async refresh(): Promise<void> {
+        let slots: SaveSlotInfo[] = [];
+        try {
+            slots = await saveSlots.list();
+        }
+        catch (error) {
+            console.error("Failed to list saved games:", error);
+        }
+
+        for (const child of this.rows.removeChildren()) {
+            child.destroy({ children: true });
+        }
+        this.buttons = [];
+        this.destroyThumbnails();
+
+        const title = new Text({
+            text: 'Saved Games',
+            style: { fontFamily: 'Arial', fontSize: 18, fontWeight: 'bold', fill: UIColors.white },
+        });
+        title.position.set(PADDING, PADDING);
+        this.rows.addChild(title);
+
+        let y = PADDING + title.height + PADDING;
+
+        if (slots.length === 0) {
+            const empty = new Text({
+                text: 'No saved games yet',
+                style: { fontFamily: 'Arial', fontSize: 14, fill: UIColors.gray[300] },
+            });
+            empty.position.set(PADDING, y);
+            this.rows.addChild(empty);
+            y += empty.height + PADDING;
+        }
+
+        for (const slot of slots) {
+            await this.addSlotRow(slot, y);
+            y += ROW_HEIGHT + PADDING / 2;
+        }
+
+        const saveButton = this.addButton('Save As...', 'success', PADDING, y, () => this.saveAs());
+        this.addButton('Close', 'default', PADDING + saveButton.getSize().width + PADDING / 2, y, () => this.close());
+        y += saveButton.getSize().height + PADDING;
+
+        this.background.clear();
+        this.background.roundRect(0, 0, PANEL_WIDTH, y, 8).fill(UIColors.blue[800]);
+
+        this.resize(engine().renderer.width, engine().renderer.height);
+    }
+
+    /**
+     * Add a row for one slot: thumbnail, name, save time and a load button
+     */
+    private async addSlotRow(slot: SaveSlotInfo, y: number): Promise<void> {
+        const texture = await loadThumbnail(slot.thumbnail);
+        if (texture !== Texture.EMPTY) {
+            this.thumbnails.push(texture);
+        }
+
+        const thumbnail = new Sprite(texture);
+        const scale = THUMBNAIL_SIZE / Math.max(thumbnail.texture.width, thumbnail.texture.height, 1);
+        thumbnail.scale.set(scale);
+        thumbnail.position.set(PADDING, y + (ROW_HEIGHT - THUMBNAIL_SIZE) / 2);
+        this.rows.addChild(thumbnail);
+
+        const name = new Text({
+            text: slot.name,
+            style: { fontFamily: 'Arial', fontSize: 14, fontWeight: 'bold', fill: UIColors.white },
+        });
+        name.position.set(PADDING * 2 + THUMBNAIL_SIZE, y + 14);
+        this.rows.addChild(name);
+
+        const time = new Text({
+            text: new Date(slot.savedAt).toLocaleString(),
+            style: { fontFamily: 'Arial', fontSize: 12, fill: UIColors.gray[300] },
+        });
+        time.position.set(PADDING * 2 + THUMBNAIL_SIZE, y + 38);
+        this.rows.addChild(time);
+
+        const load = this.addButton('Load', 'primary', 0, 0, () => this.load(slot.name));
+        load.setPosition(PANEL_WIDTH - PADDING - load.getSize().width, y + (ROW_HEIGHT - load.getSize().height) / 2);
+    }
+
+    private addButton(text: string, variant: 'default' | 'primary' | 'success', x: number, y: number, onClick: () => void): UIButton {
+        const button = new UIButton({ text, variant, onClick, interactive: true });
+        button.setPosition(x, y);
+        this.rows.addChild(button);
+        this.buttons.push(button);
+        return button;
+    }
+
+    /**
+     * Load a slot into the main screen and close the popup
+     */
+    private async load(name: string): Promise<void> {
+        const screen = engine().navigation.currentScreen as MainScreen | undefined;
+        await screen?.loadFromSlot(name);
+        await this.close();
+    }
+
+    /**
+     * Save the current world to a slot named by the user
+     */
+    private async saveAs(): Promise<void> {
+        const name = window.prompt('Save name')?.trim();
+        if (!name) return;
+
+        const screen = engine().navigation.currentScreen as MainScreen | undefined;
+        await screen?.saveToSlot(name);
+        await this.refresh();
+    }
+
+    private close(): Promise<void> {
+        return engine().navigation.dismissPopup();
+    }
+
+    private destroyThumbnails(): void {
+        for (const texture of this.thumbnails) {
+            texture.destroy(true);
+        }
+        this.thumbnails = [];
+    }
+
+    public resize(width: number, height: number): void {
+        this.dimmer.clear();
+        this.dimmer.rect(0, 0, width, height).fill({ color: UIColors.black, alpha: 0.5 });
+
+        this.panel.x = Math.round((width - PANEL_WIDTH) / 2);
+        this.panel.y = Math.round(Math.max(PADDING, (height - this.background.height) / 2));
+    }
+
+    public async hide(): Promise<void> {
+        for (const child of this.rows.removeChildren()) {
+            child.destroy({ children: true });
+        }
+        this.buttons = [];
+        this.destroyThumbnails();
+    }
+}
+
+/**
+ * Turn a thumbnail data URL into a texture, or an empty texture if it cannot be decoded
+ */
+async function loadThumbnail(dataUrl: string): Promise<Texture> {
+    try {
+        const image = new Image();
+        image.src = dataUrl;
+        await image.decode();
+
+        const texture = Texture.from(image);
+        texture.source.scaleMode = 'nearest';
+        return texture;
+    }
+    catch {
+        return Texture.EMPTY;
+    }
+}
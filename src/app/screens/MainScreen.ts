@@ -2,9 +2,30 @@ import type { Ticker } from "pixi.js";
 import { Container } from "pixi.js";
 import { WorldController } from "../../engine/world/WorldController";
 import { debug } from "../../engine/utils/Debug";
-import { UIToolbar, UIColors } from "../../engine/ui";
+import { UIToolbar, UIColors, UIPanel, UIMinimap } from "../../engine/ui";
+import { RoadDirection, TileType } from "../../engine/world/WorldData";
+import { InspectTool } from "../../engine/world/tools/InspectTool";
+import { RoadTool } from "../../engine/world/tools/RoadTool";
+import { TerrainTool } from "../../engine/world/tools/TerrainTool";
+import { BuildingTool } from "../../engine/world/tools/BuildingTool";
+import { TerrainBrush } from "../../engine/world/TerrainBrush";
+import { migrateSave } from "../../engine/world/WorldSerializer";
+import { downloadTextFile, openTextFile } from "../../engine/utils/files";
+import { saveSlots } from "../../engine/utils/saveSlots";
+import { createWorldThumbnail } from "../../engine/world/WorldThumbnail";
+import type { WorldSave } from "../../engine/world/WorldSerializer";
+import { SavedGamesPopup } from "../popups/SavedGamesPopup";
+import { KeyBindingsPopup } from "../popups/KeyBindingsPopup";
+import { NewWorldPopup } from "../popups/NewWorldPopup";
+import type { InputController } from "../../engine/input/InputController";
+import type { InputAction } from "../../engine/input/keyBindings";
 import { engine } from "../getEngine";
 
+/** Slot that the world is periodically saved to */
+const AUTOSAVE_SLOT = "Autosave";
+/** Time between autosaves, in milliseconds */
+const AUTOSAVE_INTERVAL = 60 * 1000;
+
 export class MainScreen extends Container {
     public static assetBundles = ["default"];
 
@@ -12,6 +33,12 @@ export class MainScreen extends Container {
     private worldController: WorldController;
     private paused = false;
     private uiComponents: Container[] = [];
+    private inspectorPanel: UIPanel | null = null;
+    private minimap: UIMinimap | null = null;
+    private inspectTool: InspectTool;
+    private toolbar: UIToolbar | null = null;
+    private timeSinceAutosave = 0;
+    private isSaving = false;
 
     constructor() {
         super();
@@ -22,8 +49,24 @@ export class MainScreen extends Container {
         this.worldController = new WorldController(100, 100);
         this.mainContainer.addChild(this.worldController);
 
+        this.inspectTool = new InspectTool(this.worldController, 'inspector');
+        this.worldController.registerTool(this.inspectTool);
+        this.worldController.registerTool(new RoadTool(this.worldController, 'draw-road'));
+
+        // Terrain tools share one brush, so its size carries over when switching between them
+        const brush = new TerrainBrush();
+        this.worldController.registerTool(new TerrainTool(this.worldController, 'raise-land', 'raise', brush));
+        this.worldController.registerTool(new TerrainTool(this.worldController, 'lower-land', 'lower', brush));
+        this.worldController.registerTool(new TerrainTool(this.worldController, 'flatten-land', 'flatten', brush));
+        this.worldController.registerTool(new TerrainTool(this.worldController, 'smooth-land', 'smooth', brush));
+        this.worldController.registerTool(new TerrainTool(this.worldController, 'level-land', 'level', brush));
+        this.worldController.registerTool(new BuildingTool(this.worldController, 'place-building'));
+
         // Listen for window resize events
         window.addEventListener('resize', this.handleResize.bind(this));
+
+        // Autosave when the tab is hidden, as it may be about to close
+        document.addEventListener('visibilitychange', this.handleVisibilityChange);
     }
 
     public async prepare() {
@@ -31,14 +74,32 @@ export class MainScreen extends Container {
         
         debug().initialize();
         
-        this.worldController.generateRandomWorld();
-        this.worldController.centerOn(50, 50);
+        // Pick up where the last session left off, if it was autosaved
+        const slots = await saveSlots.list().catch(() => []);
+        if (!slots.some(slot => slot.name === AUTOSAVE_SLOT) || !await this.loadFromSlot(AUTOSAVE_SLOT)) {
+            this.newWorld();
+        }
         
         this.setupMainToolbar();
+        this.setupFileToolbar();
+        this.setupInspectorPanel();
+        this.setupMinimap();
+
+        // Popups and the UI take input before the world
+        const input = this.worldController.getInputController();
+        input.addLayer(engine().navigation);
+        input.addLayer(engine().ui);
+
+        // Keep the toolbar in sync when the tool changes without a click, e.g. through Escape
+        this.worldController.addToolChangeListener(this.handleToolChange);
+        this.worldController.setDefaultTool('inspector');
     }
     
     private setupMainToolbar(): void {
         const app = engine();
+        // Hints are built when shown, so they name the keys bound at that moment
+        const keys = (action: InputAction) => this.worldController.getInputController().bindings.describe(action);
+        const brushHint = () => `${keys('previous-option')} and ${keys('next-option')} to resize, ${keys('brush-shape')} to change shape`;
         
         const toolbar = new UIToolbar({
             orientation: 'horizontal',
@@ -55,37 +116,79 @@ export class MainScreen extends Container {
                     name: 'Inspector',
                     icon: '',
                     tooltip: 'Inspect objects',
+                    shortcut: 'tool-inspect',
                     variant: 'primary',
-                    onClick: () => this.activateInspectorTool()
+                    onClick: () => this.worldController.setActiveTool('inspector')
                 },
                 {
                     id: 'draw-road',
                     name: 'Draw Road',
                     icon: '',
                     tooltip: 'Draw roads',
+                    shortcut: 'tool-road',
                     variant: 'primary',
-                    onClick: () => this.activateDrawRoadTool()
+                    onClick: () => this.worldController.setActiveTool('draw-road')
                 },
                 {
                     id: 'raise-land',
                     name: 'Raise Land',
                     icon: '',
-                    tooltip: 'Raise terrain height',
+                    tooltip: () => `Raise terrain height (${brushHint()})`,
+                    shortcut: 'tool-raise',
                     variant: 'primary',
-                    onClick: () => this.activateRaiseLandTool()
+                    onClick: () => this.worldController.setActiveTool('raise-land')
                 },
                 {
                     id: 'lower-land',
                     name: 'Lower Land',
                     icon: '',
-                    tooltip: 'Lower terrain height',
+                    tooltip: () => `Lower terrain height (${brushHint()})`,
+                    shortcut: 'tool-lower',
+                    variant: 'primary',
+                    onClick: () => this.worldController.setActiveTool('lower-land')
+                },
+                {
+                    id: 'place-building',
+                    name: 'Build',
+                    icon: '',
+                    tooltip: () => `Place buildings (${keys('previous-option')} and ${keys('next-option')} to choose, ${keys('rotate-building')} to turn)`,
+                    shortcut: 'tool-build',
+                    variant: 'primary',
+                    onClick: () => this.worldController.setActiveTool('place-building')
+                },
+                {
+                    id: 'flatten-land',
+                    name: 'Flatten',
+                    icon: '',
+                    tooltip: 'Flatten terrain to the height where you click',
+                    shortcut: 'tool-flatten',
+                    variant: 'primary',
+                    onClick: () => this.worldController.setActiveTool('flatten-land')
+                },
+                {
+                    id: 'smooth-land',
+                    name: 'Smooth',
+                    icon: '',
+                    tooltip: 'Smooth terrain towards its neighbours',
+                    shortcut: 'tool-smooth',
+                    variant: 'primary',
+                    onClick: () => this.worldController.setActiveTool('smooth-land')
+                },
+                {
+                    id: 'level-land',
+                    name: 'Level',
+                    icon: '',
+                    tooltip: () => `Level terrain to a target height (${keys('target-height-down')} and ${keys('target-height-up')} to change it)`,
+                    shortcut: 'tool-level',
                     variant: 'primary',
-                    onClick: () => this.activateLowerLandTool()
+                    onClick: () => this.worldController.setActiveTool('level-land')
                 }
             ]
         });
         
         toolbar.label = "Main Toolbar";
+        toolbar.bindShortcuts(this.worldController.getInputController());
+        this.toolbar = toolbar;
         
         app.ui.addComponent(toolbar);
         this.uiComponents.push(toolbar);
@@ -94,6 +197,243 @@ export class MainScreen extends Container {
         this.handleResize();
     }
     
+    /**
+     * Create the toolbar for saving and loading worlds
+     */
+    private setupFileToolbar(): void {
+        const app = engine();
+
+        const toolbar = new UIToolbar({
+            orientation: 'horizontal',
+            responsivePosition: { anchor: 'top-right', offset: { x: -20, y: 20 } },
+            spacing: 10,
+            padding: 10,
+            uniformButtonSize: true,
+            selectable: false,
+            backgroundColor: UIColors.blue[800],
+            borderWidth: 0,
+            cornerRadius: 6,
+            tools: [
+                {
+                    id: 'new-world',
+                    name: 'New',
+                    icon: '',
+                    tooltip: 'Show the world seed or generate a new world',
+                    variant: 'primary',
+                    onClick: () => engine().navigation.presentPopup(NewWorldPopup)
+                },
+                {
+                    id: 'save-world',
+                    name: 'Save',
+                    icon: '',
+                    tooltip: 'Download the world as a file',
+                    variant: 'primary',
+                    onClick: () => this.saveWorldToFile()
+                },
+                {
+                    id: 'load-world',
+                    name: 'Load',
+                    icon: '',
+                    tooltip: 'Load a world from a file',
+                    variant: 'primary',
+                    onClick: () => this.loadWorldFromFile()
+                },
+                {
+                    id: 'saved-games',
+                    name: 'Games',
+                    icon: '',
+                    tooltip: 'Browse saved games',
+                    variant: 'primary',
+                    onClick: () => engine().navigation.presentPopup(SavedGamesPopup)
+                },
+                {
+                    id: 'key-bindings',
+                    name: 'Keys',
+                    icon: '',
+                    tooltip: 'Change key bindings',
+                    variant: 'primary',
+                    onClick: () => engine().navigation.presentPopup(KeyBindingsPopup)
+                }
+            ]
+        });
+
+        toolbar.label = "File Toolbar";
+
+        app.ui.addComponent(toolbar);
+        this.uiComponents.push(toolbar);
+        this.handleResize();
+    }
+
+    /**
+     * Download the current world as a save file
+     */
+    private saveWorldToFile(): void {
+        const save = this.worldController.createSave();
+        downloadTextFile(`world-${save.seed ?? 'untitled'}.json`, JSON.stringify(save));
+    }
+
+    /**
+     * Ask for a save file and replace the current world with it
+     */
+    private async loadWorldFromFile(): Promise<void> {
+        try {
+            const content = await openTextFile();
+            if (content === null) return;
+
+            await this.worldController.loadSave(migrateSave(JSON.parse(content)));
+        }
+        catch (error) {
+            console.error("Failed to load world:", error);
+        }
+    }
+
+    /**
+     * Save the current world, with a thumbnail, to a named slot
+     */
+    public async saveToSlot(name: string): Promise<void> {
+        if (this.isSaving) return;
+        this.isSaving = true;
+
+        try {
+            const thumbnail = createWorldThumbnail(this.worldController.getWorldData());
+            await saveSlots.save(name, this.worldController.createSave(), thumbnail);
+        }
+        catch (error) {
+            console.error(`Failed to save to slot "${name}":`, error);
+        }
+        finally {
+            this.isSaving = false;
+        }
+    }
+
+    /**
+     * Replace the current world with one from a named slot
+     * @returns whether the slot was loaded
+     */
+    public async loadFromSlot(name: string): Promise<boolean> {
+        try {
+            const data = await saveSlots.load<WorldSave>(name);
+            if (data === undefined) {
+                console.warn(`No saved game in slot "${name}"`);
+                return false;
+            }
+
+            await this.worldController.loadSave(migrateSave(data));
+            this.timeSinceAutosave = 0;
+            return true;
+        }
+        catch (error) {
+            console.error(`Failed to load slot "${name}":`, error);
+            return false;
+        }
+    }
+
+    /**
+     * Replace the current world with a generated one
+     * @param seed - seed to reproduce a world from; a random one is picked if omitted
+     */
+    public newWorld(seed?: string): void {
+        this.worldController.generateRandomWorld(seed);
+        this.worldController.centerOn(50, 50);
+        this.timeSinceAutosave = 0;
+    }
+
+    /**
+     * Get the seed the current world was generated from, or null if it was not generated
+     */
+    public getSeed(): string | null {
+        return this.worldController.getSeed();
+    }
+
+    /**
+     * Get the input controller, e.g. for popups that rebind keys
+     */
+    public getInputController(): InputController {
+        return this.worldController.getInputController();
+    }
+
+    /**
+     * Create the panel that shows details of the inspected tile
+     */
+    private setupInspectorPanel(): void {
+        const app = engine();
+
+        this.inspectorPanel = new UIPanel({
+            position: { x: 20, y: 80 },
+            title: 'Inspector',
+            backgroundColor: UIColors.blue[800],
+            borderWidth: 0,
+            textColor: UIColors.white,
+            visible: false,
+        });
+        this.inspectorPanel.label = "Inspector Panel";
+
+        app.ui.addComponent(this.inspectorPanel);
+        this.uiComponents.push(this.inspectorPanel);
+    }
+
+    /**
+     * Create the overview map, which moves the camera when clicked
+     */
+    private setupMinimap(): void {
+        const app = engine();
+
+        this.minimap = new UIMinimap(this.worldController, {
+            responsivePosition: { anchor: 'bottom-right', offset: { x: -20, y: -20 } },
+            backgroundColor: UIColors.blue[800],
+            borderWidth: 0,
+        });
+        this.minimap.label = "Minimap";
+
+        app.ui.addComponent(this.minimap);
+        this.uiComponents.push(this.minimap);
+        this.handleResize();
+    }
+
+    /**
+     * Show the inspected tile's current state, or hide the panel when nothing is selected
+     */
+    private updateInspectorPanel(): void {
+        if (!this.inspectorPanel) return;
+
+        const position = this.inspectTool.getSelectedTile();
+        const world = this.worldController.getWorldData();
+        const tile = position ? world.getTile(position.x, position.y) : null;
+
+        this.inspectorPanel.visible = tile !== null;
+        if (!tile) return;
+
+        const [north, east, south, west] = world.getTileCornerHeights(tile.x, tile.y);
+        const typeName = Object.keys(TileType).find(name => TileType[name as keyof typeof TileType] === tile.type);
+        const roadDirections = (Object.keys(RoadDirection) as (keyof typeof RoadDirection)[])
+            .filter(name => tile.roadMask & RoadDirection[name]);
+
+        let road = 'None';
+        if (world.hasRoad(tile.x, tile.y)) {
+            road = roadDirections.length > 0 ? roadDirections.join(', ') : 'Unconnected';
+        }
+
+        this.inspectorPanel.setTitle(`Tile (${tile.x}, ${tile.y})`);
+        this.inspectorPanel.setRows([
+            { label: 'Type', value: typeName ?? `Unknown (${tile.type})` },
+            { label: 'Corners N/E/S/W', value: `${north} / ${east} / ${south} / ${west}` },
+            { label: 'Water level', value: tile.waterLevel > 0 ? `${tile.waterLevel}` : 'Dry' },
+            { label: 'Road', value: road },
+            { label: 'Building', value: this.getBuildingName(tile.buildingId) },
+        ]);
+    }
+
+    /**
+     * Describe the building with the given id for the inspector
+     */
+    private getBuildingName(buildingId: number): string {
+        const building = this.worldController.getWorldData().getBuilding(buildingId);
+        if (!building) return 'None';
+
+        const definition = this.worldController.getBuildingRegistry().get(building.type);
+        return `${definition?.name ?? building.type} (${building.facing.toUpperCase()})`;
+    }
+
     /**
      * Handle window resize events
      */
@@ -106,29 +446,32 @@ export class MainScreen extends Container {
         });
     }
 
+    private handleVisibilityChange = (): void => {
+        if (document.visibilityState === 'hidden') {
+            this.timeSinceAutosave = 0;
+            this.saveToSlot(AUTOSAVE_SLOT);
+        }
+    };
+
     /**
-     * Tool activation methods
+     * Highlight the active tool's toolbar button
      */
-    private activateInspectorTool(): void {
-        console.log("Inspector tool activated");
-    }
-    
-    private activateDrawRoadTool(): void {
-        console.log("Draw Road tool activated");
-    }
-    
-    private activateRaiseLandTool(): void {
-        console.log("Raise Land tool activated");
-    }
-    
-    private activateLowerLandTool(): void {
-        console.log("Lower Land tool activated");
-    }
+    private handleToolChange = (toolId: string | null): void => {
+        this.toolbar?.setActiveTool(toolId ?? '');
+    };
 
-    public update(_time: Ticker) {
+    public update(time: Ticker) {
         if (this.paused) return;
         
         this.worldController.update();
+        this.updateInspectorPanel();
+        this.minimap?.update();
+
+        this.timeSinceAutosave += time.deltaMS;
+        if (this.timeSinceAutosave >= AUTOSAVE_INTERVAL) {
+            this.timeSinceAutosave = 0;
+            this.saveToSlot(AUTOSAVE_SLOT);
+        }
     }
 
     public async pause() {
@@ -146,8 +489,9 @@ export class MainScreen extends Container {
     }
 
     public resize(width: number, height: number) {
-        const centerX = width * 0.5;
-        const centerY = height * 0.5;
+        // Whole pixels, so the world can be drawn pixel perfect
+        const centerX = Math.round(width * 0.5);
+        const centerY = Math.round(height * 0.5);
 
         this.mainContainer.x = centerX;
         this.mainContainer.y = centerY;
@@ -171,6 +515,8 @@ export class MainScreen extends Container {
     public destroy(): void {
         debug().destroy();
         
+        this.worldController.removeToolChangeListener(this.handleToolChange);
+        document.removeEventListener('visibilitychange', this.handleVisibilityChange);
         this.worldController.destroy();
         super.destroy();
     }
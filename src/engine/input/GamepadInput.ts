@@ -0,0 +1,131 @@
+import type { Coordinate } from "../world/IsometricUtils";
+
+/**
+ * Button indices of the standard gamepad mapping
+ * @see https://w3c.github.io/gamepad/#remapping
+ */
+export const GamepadButton = {
+    A: 0,
+    B: 1,
+    X: 2,
+    Y: 3,
+    LeftBumper: 4,
+    RightBumper: 5,
+    LeftTrigger: 6,
+    RightTrigger: 7,
+    Back: 8,
+    Start: 9,
+    LeftStick: 10,
+    RightStick: 11,
+    DpadUp: 12,
+    DpadDown: 13,
+    DpadLeft: 14,
+    DpadRight: 15,
+} as const;
+
+/**
+ * Stick deflection below which a stick counts as centred, as worn sticks rarely rest at zero
+ */
+const STICK_DEAD_ZONE = 0.2;
+
+/**
+ * How far a trigger must be pulled to count as pressed
+ */
+const TRIGGER_THRESHOLD = 0.5;
+
+/**
+ * The part of a Gamepad that is read, so scripted fakes can stand in for real pads
+ */
+export type GamepadState = Pick<Gamepad, "axes" | "buttons" | "connected">;
+
+/**
+ * Reads the first connected gamepad once per frame, keeping which buttons went down
+ * or up since the previous frame. The Gamepad API has no button events, so it is polled.
+ */
+export class GamepadInput {
+    private getGamepads: () => readonly (GamepadState | null)[];
+    private pad: GamepadState | null = null;
+    private pressed: boolean[] = [];
+    private previous: boolean[] = [];
+
+    /**
+     * @param getGamepads - source of gamepad states, replaceable with a scripted fake outside the browser
+     */
+    constructor(getGamepads: () => readonly (GamepadState | null)[] = () => globalThis.navigator?.getGamepads?.() ?? []) {
+        this.getGamepads = getGamepads;
+    }
+
+    /**
+     * Read the current state; call once per frame before querying
+     */
+    public poll(): void {
+        this.pad = this.getGamepads().find(pad => pad?.connected) ?? null;
+        this.previous = this.pressed;
+        this.pressed = this.pad
+            ? Array.from(this.pad.buttons, (button, index) => isTrigger(index) ? button.value >= TRIGGER_THRESHOLD : button.pressed)
+            : [];
+    }
+
+    /**
+     * Check if a gamepad is connected
+     */
+    public isConnected(): boolean {
+        return this.pad !== null;
+    }
+
+    /**
+     * Check if a button is held down
+     */
+    public isButtonDown(button: number): boolean {
+        return this.pressed[button] ?? false;
+    }
+
+    /**
+     * Check if a button went down since the last poll
+     */
+    public wasButtonPressed(button: number): boolean {
+        return this.isButtonDown(button) && !(this.previous[button] ?? false);
+    }
+
+    /**
+     * Check if a button came up since the last poll
+     */
+    public wasButtonReleased(button: number): boolean {
+        return !this.isButtonDown(button) && (this.previous[button] ?? false);
+    }
+
+    /**
+     * Get the left stick's deflection, -1 to 1 on each axis with down and right positive
+     */
+    public getLeftStick(): Coordinate {
+        return this.getStick(0);
+    }
+
+    /**
+     * Get the right stick's deflection, -1 to 1 on each axis with down and right positive
+     */
+    public getRightStick(): Coordinate {
+        return this.getStick(2);
+    }
+
+    /**
+     * Read a stick from a pair of axes, ignoring the dead zone and rescaling the rest to 0 to 1
+     */
+    private getStick(firstAxis: number): Coordinate {
+        const x = this.pad?.axes[firstAxis] ?? 0;
+        const y = this.pad?.axes[firstAxis + 1] ?? 0;
+
+        const length = Math.hypot(x, y);
+        if (length < STICK_DEAD_ZONE) return { x: 0, y: 0 };
+
+        const scale = Math.min(1, (length - STICK_DEAD_ZONE) / (1 - STICK_DEAD_ZONE)) / length;
+        return { x: x * scale, y: y * scale };
+    }
+}
+
+/**
+ * Triggers are analogue, so they count as pressed once pulled past a threshold
+ */
+function isTrigger(button: number): boolean {
+    return button === GamepadButton.LeftTrigger || button === GamepadButton.RightTrigger;
+}
@@ -1,20 +1,128 @@
 import { Renderer } from "pixi.js";
 import { engine } from "../../app/getEngine";
 import { Coordinate, screenToWorldMovement } from "../world/IsometricUtils";
+import { getChordFromEvent, keyBindings } from "./keyBindings";
+import type { InputAction, KeyBindings, KeyChord } from "./keyBindings";
+import { GamepadButton, GamepadInput } from "./GamepadInput";
 
 /**
- * Input controller for handling keyboard input
+ * Wheel distance, in pixels, that zooms by one zoom stop; about one notch of a mouse wheel
+ */
+const WHEEL_ZOOM_STEP = 100;
+
+/**
+ * Pixels per line, for wheels that scroll by lines rather than pixels
+ */
+const WHEEL_LINE_HEIGHT = 40;
+
+/**
+ * Actions triggered and held by gamepad buttons; A clicks at the cursor instead
+ */
+const GAMEPAD_ACTIONS: readonly [number, InputAction][] = [
+    [GamepadButton.B, 'cancel'],
+    [GamepadButton.X, 'rotate-view-left'],
+    [GamepadButton.Y, 'rotate-view-right'],
+    [GamepadButton.Back, 'undo'],
+    [GamepadButton.LeftBumper, 'previous-tool'],
+    [GamepadButton.RightBumper, 'next-tool'],
+    [GamepadButton.LeftTrigger, 'zoom-out'],
+    [GamepadButton.RightTrigger, 'zoom-in'],
+    [GamepadButton.DpadUp, 'pan-up'],
+    [GamepadButton.DpadDown, 'pan-down'],
+    [GamepadButton.DpadLeft, 'pan-left'],
+    [GamepadButton.DpadRight, 'pan-right'],
+];
+
+/**
+ * Speed of the cursor moved by the right stick at full tilt, in pixels per frame
+ */
+const GAMEPAD_CURSOR_SPEED = 10;
+
+/**
+ * Distance, in pixels, a pressed pointer must move before the press counts as a drag rather than a click.
+ * Fingers wobble more than mice, so touches need to move further.
+ */
+const DRAG_THRESHOLD = 4;
+const TOUCH_DRAG_THRESHOLD = 10;
+
+/**
+ * How strongly trackpad pinches zoom, as the exponent of the zoom factor per pixel of wheel distance
+ */
+const PINCH_ZOOM_RATE = 0.01;
+
+/**
+ * Pointer events that move the pointer or change its buttons
+ */
+const POINTER_EVENTS = ['pointerdown', 'pointermove', 'pointerup', 'pointercancel'] as const;
+
+/**
+ * Mouse button events: a click follows the up of a press that was not dragged
+ */
+export type MouseEventType = 'down' | 'up' | 'click';
+
+/**
+ * Something drawn over the world, such as the UI, that sees input before the world does
+ * and can keep it. Only input no layer keeps reaches the world's tools and camera.
+ */
+export interface InputLayer {
+    /**
+     * Check whether the layer takes pointer input at a canvas position
+     */
+    capturesPointer?(position: Coordinate): boolean;
+    /**
+     * Check whether the layer takes key input
+     * @param event - the key event, or null for actions triggered by gamepad buttons
+     */
+    capturesKeys?(event: KeyboardEvent | null): boolean;
+}
+
+/**
+ * A held mouse button, or the finger standing in for the left button
+ */
+interface ButtonPress {
+    /** Pointer position when the button went down */
+    start: Coordinate;
+    /** Whether the pointer has moved far enough since to be dragging */
+    isDrag: boolean;
+}
+
+/**
+ * Input controller for handling keyboard, pointer and gamepad input.
+ * Key presses and gamepad buttons are turned into named actions; the gamepad's
+ * right stick moves the mouse position, so it drives picking like the mouse does.
  */
 export class InputController {
+    /** Which chords trigger which actions */
+    public readonly bindings: KeyBindings;
+    private gamepad: GamepadInput;
     private keys: Set<string> = new Set();
     private listeners: Map<string, (() => void)[]> = new Map();
+    private anyKeyListeners: Map<string, ((keyCode: string) => void)[]> = new Map();
+    private actionListeners: Map<InputAction, (() => void)[]> = new Map();
+    private anyActionListeners: ((action: InputAction) => void)[] = [];
+    /** Called with the next chord instead of triggering actions, while rebinding a key */
+    private chordCapture: ((chord: KeyChord) => void) | null = null;
+    private mouseListeners: Map<MouseEventType, ((button: number) => void)[]> = new Map();
     private lastZoomTime: number = 0;
     private zoomCooldown: number = 150; // ms between zoom actions
-    private wheelZoomQueue: number = 0; // Queue for wheel zoom events
+    private wheelZoomQueue: number = 0; // Wheel distance in pixels not yet turned into zoom steps
+    private pinchZoomQueue: number = 0; // Trackpad pinch distance in pixels not yet applied
 
-    // Mouse tracking
+    // Mouse tracking; a single finger or the gamepad cursor also moves the mouse position
     private mouseX: number = 0;
     private mouseY: number = 0;
+    /** Held mouse buttons, keyed by MouseEvent.button */
+    private presses: Map<number, ButtonPress> = new Map();
+    private isMouseInside = false;
+    /** Whether an input layer takes the pointer at its current position */
+    private isPointerCaptured = false;
+    private layers: InputLayer[] = [];
+    /** Active touch points in canvas coordinates, keyed by pointer id */
+    private touches: Map<number, Coordinate> = new Map();
+    /** A lone finger that has touched down but not yet moved or lifted, so it is not yet a tap or a drag */
+    private pendingTouch: { pointerId: number; start: Coordinate } | null = null;
+    /** Finger holding the left button down while it drags, or null */
+    private pressingTouchId: number | null = null;
     private canvas: HTMLCanvasElement;
     private renderer: Renderer;
 
@@ -23,13 +131,39 @@ export class InputController {
     private keyupHandler: (event: KeyboardEvent) => void;
     private wheelHandler: (event: WheelEvent) => void;
     private blurHandler: () => void;
-    private mouseMoveHandler: (event: MouseEvent) => void;
+    private pointerHandler: (event: PointerEvent) => void;
+    private pointerEnterHandler: (event: PointerEvent) => void;
+    private pointerLeaveHandler: (event: PointerEvent) => void;
+    private contextMenuHandler: (event: MouseEvent) => void;
+
+    /**
+     * @param gamepad - gamepad to poll, replaceable with one reading a scripted fake
+     */
+    constructor(bindings: KeyBindings = keyBindings, gamepad: GamepadInput = new GamepadInput()) {
+        this.bindings = bindings;
+        this.gamepad = gamepad;
 
-    constructor() {
         // Bind event handlers
         this.keydownHandler = (event) => {
+            const chord = getChordFromEvent(event);
+            if (this.chordCapture) {
+                // Modifiers on their own wait for the key they are held with
+                if (!chord) return;
+                event.preventDefault();
+                const capture = this.chordCapture;
+                this.chordCapture = null;
+                capture(chord);
+                return;
+            }
+
+            // Keys typed into the UI are not held for panning either
+            if (this.isKeyCaptured(event)) return;
             this.keys.add(event.code);
+
             this.triggerKeyListeners(event.code, 'down');
+            if (chord) {
+                this.bindings.getActions(chord).forEach(action => this.triggerAction(action));
+            }
         };
 
         this.keyupHandler = (event) => {
@@ -38,42 +172,297 @@ export class InputController {
         };
 
         this.wheelHandler = (event) => {
+            // Scrolling over the UI is left to it and the page
+            if (this.isPointerCapturedAt(this.toCanvasPosition(event.clientX, event.clientY))) return;
             event.preventDefault();
-            
-            // Normalize wheel delta across different browsers and devices
-            const delta = Math.sign(event.deltaY);
-            this.wheelZoomQueue += delta;
+
+            // Normalize wheel delta to pixels across different browsers and devices
+            let delta = event.deltaY;
+            if (event.deltaMode === WheelEvent.DOM_DELTA_LINE) {
+                delta *= WHEEL_LINE_HEIGHT;
+            }
+            else if (event.deltaMode === WheelEvent.DOM_DELTA_PAGE) {
+                delta *= this.renderer.height;
+            }
+
+            // Browsers report trackpad pinches as wheel events with the control key held
+            if (event.ctrlKey) {
+                this.pinchZoomQueue += delta;
+            }
+            else {
+                // Turning back discards distance left over from the other direction
+                if (Math.sign(delta) !== Math.sign(this.wheelZoomQueue)) {
+                    this.wheelZoomQueue = 0;
+                }
+                this.wheelZoomQueue += delta;
+            }
         };
 
         this.blurHandler = () => {
             this.keys.clear();
+            this.presses.clear();
+            this.touches.clear();
+            this.pendingTouch = null;
+            this.pressingTouchId = null;
         };
 
         this.canvas = engine().canvas;
         this.renderer = engine().renderer;
 
-        const scaleX = this.renderer.width / this.canvas.offsetWidth;
-        const scaleY = this.renderer.height / this.canvas.offsetHeight;
+        this.pointerHandler = (event) => {
+            const position = this.toCanvasPosition(event.clientX, event.clientY);
+            if (event.pointerType === 'touch') {
+                // Fingers landing on the UI are left to it for as long as they touch
+                if (event.type !== 'pointerdown' || !this.isPointerCapturedAt(position)) {
+                    this.handleTouch(event, position);
+                }
+                return;
+            }
+
+            this.isMouseInside = true;
+            this.moveMouse(position, DRAG_THRESHOLD);
+
+            // Keep receiving the drag when it leaves the canvas, so buttons are never left held
+            if (event.type === 'pointerdown') {
+                this.canvas.setPointerCapture(event.pointerId);
+            }
+
+            // Buttons pressed while another is held only show up as moves, so every event may change one.
+            // Presses on the UI are left to it, but releases anywhere end presses that started on the world.
+            if (event.button >= 0) {
+                if (!(event.buttons & getButtonMask(event.button))) {
+                    this.releaseButton(event.button);
+                }
+                else if (!this.isPointerCapturedAt(position)) {
+                    this.pressButton(event.button);
+                }
+            }
+        };
+
+        this.pointerEnterHandler = (event) => {
+            if (event.pointerType !== 'touch') {
+                this.isMouseInside = true;
+            }
+        };
 
-        this.mouseMoveHandler = (event) => {
-            const rect = this.canvas.getBoundingClientRect();
-            // TODO: Figure out how to calculate the correct offset based on canvas position
-            this.mouseX = (event.clientX - rect.left - 1) * scaleX;
-            this.mouseY = (event.clientY - rect.top - 1) * scaleY;
+        this.pointerLeaveHandler = (event) => {
+            if (event.pointerType !== 'touch') {
+                this.isMouseInside = false;
+            }
+        };
+
+        // The right button drags the camera, so keep the browser menu out of the way
+        this.contextMenuHandler = (event) => {
+            event.preventDefault();
         };
 
         this.setupEventListeners();
     }
 
     /**
-     * Set up keyboard and mouse event listeners
+     * Set up keyboard and pointer event listeners.
+     * Pixi sets touch-action: none on the canvas, so the browser leaves touches to these listeners.
      */
     private setupEventListeners(): void {
         document.addEventListener('keydown', this.keydownHandler);
         document.addEventListener('keyup', this.keyupHandler);
-        document.addEventListener('wheel', this.wheelHandler, { passive: false });
+        this.canvas.addEventListener('wheel', this.wheelHandler, { passive: false });
         window.addEventListener('blur', this.blurHandler);
-        this.canvas.addEventListener('mousemove', this.mouseMoveHandler);
+        for (const type of POINTER_EVENTS) {
+            this.canvas.addEventListener(type, this.pointerHandler);
+        }
+        this.canvas.addEventListener('pointerenter', this.pointerEnterHandler);
+        this.canvas.addEventListener('pointerleave', this.pointerLeaveHandler);
+        this.canvas.addEventListener('contextmenu', this.contextMenuHandler);
+    }
+
+    /**
+     * Convert a position in the page to canvas coordinates, in the same units as the renderer's
+     * width and height. These are CSS pixels of the canvas at its own size, whatever the
+     * resolution it renders at and however CSS stretches or transforms it on the page.
+     */
+    private toCanvasPosition(clientX: number, clientY: number): Coordinate {
+        const rect = this.canvas.getBoundingClientRect();
+
+        // The bounding rectangle includes the border and any CSS transform; offsetWidth includes the border only
+        const transformX = this.canvas.offsetWidth > 0 ? rect.width / this.canvas.offsetWidth : 1;
+        const transformY = this.canvas.offsetHeight > 0 ? rect.height / this.canvas.offsetHeight : 1;
+        const left = rect.left + this.canvas.clientLeft * transformX;
+        const top = rect.top + this.canvas.clientTop * transformY;
+        const width = this.canvas.clientWidth * transformX;
+        const height = this.canvas.clientHeight * transformY;
+
+        return {
+            x: width > 0 ? (clientX - left) * this.renderer.width / width : 0,
+            y: height > 0 ? (clientY - top) * this.renderer.height / height : 0,
+        };
+    }
+
+    /**
+     * Track fingers. A lone finger acts as the left button: a tap clicks, and once it moves it drags.
+     * It waits until then to press, so a second finger arriving for a pinch can take over instead.
+     */
+    private handleTouch(event: PointerEvent, position: Coordinate): void {
+        const id = event.pointerId;
+        const isEnd = event.type === 'pointerup' || event.type === 'pointercancel';
+
+        if (event.type === 'pointerdown') {
+            this.touches.set(id, position);
+            if (this.touches.size === 1) {
+                this.pendingTouch = { pointerId: id, start: position };
+                this.moveMouse(position, TOUCH_DRAG_THRESHOLD);
+            }
+            else {
+                // More fingers move the camera, ending anything the first one started
+                this.pendingTouch = null;
+                this.releaseTouchPress();
+            }
+            return;
+        }
+
+        if (isEnd) {
+            this.touches.delete(id);
+        }
+        else if (this.touches.has(id)) {
+            this.touches.set(id, position);
+        }
+
+        if (this.pendingTouch?.pointerId === id) {
+            const start = this.pendingTouch.start;
+            const moved = Math.hypot(position.x - start.x, position.y - start.y) > TOUCH_DRAG_THRESHOLD;
+            if (event.type === 'pointercancel') {
+                this.pendingTouch = null;
+            }
+            else if (event.type === 'pointerup' || moved) {
+                // Press where the finger first touched, then catch up with where it is now
+                this.pendingTouch = null;
+                this.pressingTouchId = id;
+                this.pressButton(0);
+            }
+        }
+
+        if (this.pressingTouchId === id) {
+            this.moveMouse(position, TOUCH_DRAG_THRESHOLD);
+            if (isEnd) {
+                this.releaseTouchPress();
+            }
+        }
+    }
+
+    /**
+     * Release the left button held by a finger, if any
+     */
+    private releaseTouchPress(): void {
+        if (this.pressingTouchId === null) return;
+
+        this.pressingTouchId = null;
+        this.releaseButton(0);
+    }
+
+    /**
+     * Move the mouse position, turning held buttons into drags once they move far enough
+     */
+    private moveMouse(position: Coordinate, dragThreshold: number): void {
+        this.mouseX = position.x;
+        this.mouseY = position.y;
+
+        for (const press of this.presses.values()) {
+            if (!press.isDrag && Math.hypot(position.x - press.start.x, position.y - press.start.y) > dragThreshold) {
+                press.isDrag = true;
+            }
+        }
+    }
+
+    /**
+     * Hold a mouse button down at the mouse position
+     */
+    private pressButton(button: number): void {
+        if (this.presses.has(button)) return;
+
+        this.presses.set(button, { start: this.getMousePosition(), isDrag: false });
+        this.triggerMouseListeners(button, 'down');
+    }
+
+    /**
+     * Let go of a mouse button, clicking it if it was not dragged
+     */
+    private releaseButton(button: number): void {
+        const press = this.presses.get(button);
+        if (!press) return;
+
+        this.presses.delete(button);
+        this.triggerMouseListeners(button, 'up');
+        if (!press.isDrag) {
+            this.triggerMouseListeners(button, 'click');
+        }
+    }
+
+    /**
+     * Update once per frame: poll the gamepad, whose buttons trigger actions, A clicks
+     * and the right stick moves the cursor, then check whether an input layer takes the cursor
+     */
+    public update(): void {
+        const gamepad = this.gamepad;
+        gamepad.poll();
+
+        const stick = gamepad.getRightStick();
+        if (stick.x !== 0 || stick.y !== 0) {
+            this.moveMouse({
+                x: Math.max(0, Math.min(this.renderer.width - 1, this.mouseX + stick.x * GAMEPAD_CURSOR_SPEED)),
+                y: Math.max(0, Math.min(this.renderer.height - 1, this.mouseY + stick.y * GAMEPAD_CURSOR_SPEED)),
+            }, DRAG_THRESHOLD);
+            this.isMouseInside = true;
+        }
+
+        // The cursor or the UI under it may have moved; a drag that started on the world keeps the pointer though
+        const isCaptured = this.isPointerCapturedAt(this.getMousePosition());
+        if (gamepad.wasButtonPressed(GamepadButton.A) && !isCaptured) {
+            this.pressButton(0);
+        }
+        else if (gamepad.wasButtonReleased(GamepadButton.A)) {
+            this.releaseButton(0);
+        }
+        this.isPointerCaptured = isCaptured && this.presses.size === 0;
+
+        if (this.chordCapture || this.isKeyCaptured(null)) return;
+        for (const [button, action] of GAMEPAD_ACTIONS) {
+            if (gamepad.wasButtonPressed(button)) {
+                this.triggerAction(action);
+            }
+        }
+    }
+
+    /**
+     * Add a layer that sees pointer and key input before the world
+     */
+    public addLayer(layer: InputLayer): void {
+        if (!this.layers.includes(layer)) {
+            this.layers.push(layer);
+        }
+    }
+
+    /**
+     * Remove a layer added with addLayer
+     */
+    public removeLayer(layer: InputLayer): void {
+        const index = this.layers.indexOf(layer);
+        if (index > -1) {
+            this.layers.splice(index, 1);
+        }
+    }
+
+    /**
+     * Check whether any layer takes the pointer at a canvas position
+     */
+    private isPointerCapturedAt(position: Coordinate): boolean {
+        return this.layers.some(layer => layer.capturesPointer?.(position) ?? false);
+    }
+
+    /**
+     * Check whether any layer takes key input
+     */
+    private isKeyCaptured(event: KeyboardEvent | null): boolean {
+        return this.layers.some(layer => layer.capturesKeys?.(event) ?? false);
     }
 
     /**
@@ -90,6 +479,16 @@ export class InputController {
         return keyCodes.some(key => this.keys.has(key));
     }
 
+    /**
+     * Check if any chord or gamepad button bound to an action is held down
+     */
+    public isActionHeld(action: InputAction): boolean {
+        if (this.chordCapture !== null) return false;
+
+        return this.bindings.isHeld(action, this.keys) ||
+            GAMEPAD_ACTIONS.some(([button, bound]) => bound === action && this.gamepad.isButtonDown(button));
+    }
+
     /**
      * Get movement input as a direction vector
      */
@@ -97,25 +496,29 @@ export class InputController {
         let x = 0;
         let y = 0;
 
-        // Arrow keys
-        if (this.isKeyPressed('ArrowLeft') || this.isKeyPressed('KeyA')) {
+        if (this.isActionHeld('pan-left')) {
             x -= 1;
         }
-        if (this.isKeyPressed('ArrowRight') || this.isKeyPressed('KeyD')) {
+        if (this.isActionHeld('pan-right')) {
             x += 1;
         }
-        if (this.isKeyPressed('ArrowUp') || this.isKeyPressed('KeyW')) {
+        if (this.isActionHeld('pan-up')) {
             y -= 1;
         }
-        if (this.isKeyPressed('ArrowDown') || this.isKeyPressed('KeyS')) {
+        if (this.isActionHeld('pan-down')) {
             y += 1;
         }
 
+        // The left stick pans in any direction, at a speed set by how far it is pushed
+        const stick = this.gamepad.getLeftStick();
+        x = Math.max(-1, Math.min(1, x + stick.x));
+        y = Math.max(-1, Math.min(1, y + stick.y));
+
         return { x, y };
     }
 
     /**
-     * Get zoom input with cooldown to prevent rapid zooming
+     * Get keyboard zoom input with cooldown to prevent rapid zooming
      */
     public getZoomInput(): { zoomIn: boolean; zoomOut: boolean } {
         const now = Date.now();
@@ -126,30 +529,34 @@ export class InputController {
         
         if (canZoom) {
             // Handle keyboard zoom
-            if (this.isKeyPressed('Equal')) {
+            if (this.isActionHeld('zoom-in')) {
                 zoomIn = true;
                 this.lastZoomTime = now;
             }
-            else if (this.isKeyPressed('Minus')) {
+            else if (this.isActionHeld('zoom-out')) {
                 zoomOut = true;
                 this.lastZoomTime = now;
             }
-            // Handle mouse wheel zoom
-            else if (this.wheelZoomQueue !== 0) {
-                if (this.wheelZoomQueue > 0) {
-                    zoomOut = true; // Wheel up = zoom out
-                }
-                else {
-                    zoomIn = true; // Wheel down = zoom in
-                }
-                this.wheelZoomQueue = 0; // Clear the queue
-                this.lastZoomTime = now;
-            }
         }
         
         return { zoomIn, zoomOut };
     }
 
+    /**
+     * Take the wheel and trackpad pinch input since the last call
+     * @returns zoom stops to step, positive to zoom in, and a factor to scale the zoom by for pinches
+     */
+    public getWheelZoomInput(): { steps: number; scale: number } {
+        // Scrolling down (positive delta) zooms out
+        const steps = Math.trunc(this.wheelZoomQueue / WHEEL_ZOOM_STEP);
+        this.wheelZoomQueue -= steps * WHEEL_ZOOM_STEP;
+
+        const scale = Math.exp(-this.pinchZoomQueue * PINCH_ZOOM_RATE);
+        this.pinchZoomQueue = 0;
+
+        return { steps: -steps, scale };
+    }
+
     /**
      * Get movement input relative to screen coordinates (for isometric view)
      * This converts screen-relative input to world-relative movement
@@ -168,6 +575,43 @@ export class InputController {
         return { x: this.mouseX, y: this.mouseY };
     }
 
+    /**
+     * Check if a mouse button is held down, using MouseEvent.button numbering (0=left, 1=middle, 2=right)
+     */
+    public isMouseButtonPressed(button: number): boolean {
+        return this.presses.has(button);
+    }
+
+    /**
+     * Get where a held mouse button was pressed, once the pointer has moved far enough to be dragging it
+     * @returns the press position in canvas coordinates, or null while not dragging with the button
+     */
+    public getDragStart(button: number): Coordinate | null {
+        const press = this.presses.get(button);
+        return press?.isDrag ? { ...press.start } : null;
+    }
+
+    /**
+     * Check if the mouse is over the canvas; touches do not count, as nothing hovers between them
+     */
+    public isMouseOverCanvas(): boolean {
+        return this.isMouseInside;
+    }
+
+    /**
+     * Check if the mouse is over an input layer, such as the UI, which keeps it from the world
+     */
+    public isMouseOverLayer(): boolean {
+        return this.isPointerCaptured;
+    }
+
+    /**
+     * Get the positions of the fingers currently touching the canvas, relative to its top left
+     */
+    public getTouchPositions(): Coordinate[] {
+        return [...this.touches.values()];
+    }
+
     public getMousePositionRelativeToCenter(): Coordinate {
         const viewportCenterX = this.renderer.width / 2;
         const viewportCenterY = this.renderer.height / 2;
@@ -203,6 +647,29 @@ export class InputController {
         }
     }
 
+    /**
+     * Add a listener called with the key code of every key event of a type
+     */
+    public addAnyKeyListener(type: 'down' | 'up', callback: (keyCode: string) => void): void {
+        if (!this.anyKeyListeners.has(type)) {
+            this.anyKeyListeners.set(type, []);
+        }
+        this.anyKeyListeners.get(type)!.push(callback);
+    }
+
+    /**
+     * Remove a listener added with addAnyKeyListener
+     */
+    public removeAnyKeyListener(type: 'down' | 'up', callback: (keyCode: string) => void): void {
+        const callbacks = this.anyKeyListeners.get(type);
+        if (callbacks) {
+            const index = callbacks.indexOf(callback);
+            if (index > -1) {
+                callbacks.splice(index, 1);
+            }
+        }
+    }
+
     /**
      * Trigger listeners for a specific key event
      */
@@ -212,6 +679,105 @@ export class InputController {
         if (callbacks) {
             callbacks.forEach(callback => callback());
         }
+
+        this.anyKeyListeners.get(type)?.forEach(callback => callback(keyCode));
+    }
+
+    /**
+     * Add a listener called when a chord bound to an action is pressed
+     */
+    public addActionListener(action: InputAction, callback: () => void): void {
+        if (!this.actionListeners.has(action)) {
+            this.actionListeners.set(action, []);
+        }
+        this.actionListeners.get(action)!.push(callback);
+    }
+
+    /**
+     * Remove a listener added with addActionListener
+     */
+    public removeActionListener(action: InputAction, callback: () => void): void {
+        const callbacks = this.actionListeners.get(action);
+        if (callbacks) {
+            const index = callbacks.indexOf(callback);
+            if (index > -1) {
+                callbacks.splice(index, 1);
+            }
+        }
+    }
+
+    /**
+     * Add a listener called with every action triggered by a key press
+     */
+    public addAnyActionListener(callback: (action: InputAction) => void): void {
+        this.anyActionListeners.push(callback);
+    }
+
+    /**
+     * Remove a listener added with addAnyActionListener
+     */
+    public removeAnyActionListener(callback: (action: InputAction) => void): void {
+        const index = this.anyActionListeners.indexOf(callback);
+        if (index > -1) {
+            this.anyActionListeners.splice(index, 1);
+        }
+    }
+
+    /**
+     * Trigger listeners for an action
+     */
+    private triggerAction(action: InputAction): void {
+        this.actionListeners.get(action)?.forEach(callback => callback());
+        this.anyActionListeners.forEach(callback => callback(action));
+    }
+
+    /**
+     * Pass the next chord pressed to a callback instead of triggering actions, e.g. to rebind an action.
+     * Replaces any capture already waiting.
+     */
+    public captureNextChord(callback: (chord: KeyChord) => void): void {
+        this.chordCapture = callback;
+    }
+
+    /**
+     * Stop waiting for a chord started with captureNextChord
+     */
+    public cancelChordCapture(): void {
+        this.chordCapture = null;
+    }
+
+    /**
+     * Add a listener for a mouse button event. A click follows the up event of a press
+     * that was released without dragging, so drags and clicks can do different things.
+     */
+    public addMouseListener(type: MouseEventType, callback: (button: number) => void): void {
+        if (!this.mouseListeners.has(type)) {
+            this.mouseListeners.set(type, []);
+        }
+        this.mouseListeners.get(type)!.push(callback);
+    }
+
+    /**
+     * Remove a mouse button listener
+     */
+    public removeMouseListener(type: MouseEventType, callback: (button: number) => void): void {
+        const callbacks = this.mouseListeners.get(type);
+        if (callbacks) {
+            const index = callbacks.indexOf(callback);
+            if (index > -1) {
+                callbacks.splice(index, 1);
+            }
+        }
+    }
+
+    /**
+     * Trigger listeners for a mouse button event
+     */
+    private triggerMouseListeners(button: number, type: MouseEventType): void {
+        const callbacks = this.mouseListeners.get(type);
+        if (callbacks) {
+            callbacks.forEach(callback => callback(button));
+        }
     }
 
     /**
@@ -220,16 +786,41 @@ export class InputController {
     public destroy(): void {
         document.removeEventListener('keydown', this.keydownHandler);
         document.removeEventListener('keyup', this.keyupHandler);
-        document.removeEventListener('wheel', this.wheelHandler);
         window.removeEventListener('blur', this.blurHandler);
         
-        // Clean up mouse listener
+        // Clean up pointer listeners
         if (this.canvas) {
-            this.canvas.removeEventListener('mousemove', this.mouseMoveHandler);
+            for (const type of POINTER_EVENTS) {
+                this.canvas.removeEventListener(type, this.pointerHandler);
+            }
+            this.canvas.removeEventListener('pointerenter', this.pointerEnterHandler);
+            this.canvas.removeEventListener('pointerleave', this.pointerLeaveHandler);
+            this.canvas.removeEventListener('contextmenu', this.contextMenuHandler);
+            this.canvas.removeEventListener('wheel', this.wheelHandler);
         }
         
         this.keys.clear();
         this.listeners.clear();
+        this.anyKeyListeners.clear();
+        this.actionListeners.clear();
+        this.anyActionListeners = [];
+        this.layers = [];
+        this.chordCapture = null;
+        this.mouseListeners.clear();
+        this.presses.clear();
+        this.touches.clear();
+        this.pendingTouch = null;
+        this.pressingTouchId = null;
         this.wheelZoomQueue = 0;
+        this.pinchZoomQueue = 0;
     }
 }
+
+/**
+ * Get the bit of PointerEvent.buttons for a MouseEvent.button, which number the middle and right buttons differently
+ */
+function getButtonMask(button: number): number {
+    if (button === 1) return 4;
+    if (button === 2) return 2;
+    return 1 << button;
+}
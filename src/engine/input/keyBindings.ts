@@ -0,0 +1,287 @@
+import { storage } from "../utils/storage";
+
+/**
+ * Something the player can do with the keyboard, bound to one or more key chords
+ */
+export type InputAction =
+    | "pan-left"
+    | "pan-right"
+    | "pan-up"
+    | "pan-down"
+    | "zoom-in"
+    | "zoom-out"
+    | "rotate-view-left"
+    | "rotate-view-right"
+    | "undo"
+    | "redo"
+    | "cancel"
+    | "tool-inspect"
+    | "tool-road"
+    | "tool-raise"
+    | "tool-lower"
+    | "tool-build"
+    | "tool-flatten"
+    | "tool-smooth"
+    | "tool-level"
+    | "previous-tool"
+    | "next-tool"
+    | "previous-option"
+    | "next-option"
+    | "rotate-building"
+    | "brush-shape"
+    | "target-height-down"
+    | "target-height-up";
+
+/**
+ * A key pressed with any modifiers, written as the modifiers in the order Ctrl, Alt, Shift
+ * followed by the KeyboardEvent.code, e.g. "Ctrl+Shift+KeyZ". Meta counts as Ctrl, so
+ * shortcuts work the same with Cmd on macOS.
+ */
+export type KeyChord = string;
+
+/**
+ * Name shown to players for each action, in the order actions are listed
+ */
+export const ACTION_LABELS: Record<InputAction, string> = {
+    "pan-left": "Pan left",
+    "pan-right": "Pan right",
+    "pan-up": "Pan up",
+    "pan-down": "Pan down",
+    "zoom-in": "Zoom in",
+    "zoom-out": "Zoom out",
+    "rotate-view-left": "Turn view left",
+    "rotate-view-right": "Turn view right",
+    "undo": "Undo",
+    "redo": "Redo",
+    "cancel": "Cancel",
+    "tool-inspect": "Inspector",
+    "tool-road": "Draw road",
+    "tool-raise": "Raise land",
+    "tool-lower": "Lower land",
+    "tool-build": "Build",
+    "tool-flatten": "Flatten",
+    "tool-smooth": "Smooth",
+    "tool-level": "Level",
+    "previous-tool": "Previous tool",
+    "next-tool": "Next tool",
+    "previous-option": "Previous building / smaller brush",
+    "next-option": "Next building / larger brush",
+    "rotate-building": "Turn building",
+    "brush-shape": "Change brush shape",
+    "target-height-down": "Lower level height",
+    "target-height-up": "Raise level height",
+};
+
+/**
+ * Every action, in the order they are listed
+ */
+export const INPUT_ACTIONS = Object.keys(ACTION_LABELS) as InputAction[];
+
+/**
+ * Chords each action is bound to until the player changes them
+ */
+const DEFAULT_BINDINGS: Record<InputAction, KeyChord[]> = {
+    "pan-left": ["ArrowLeft", "KeyA"],
+    "pan-right": ["ArrowRight", "KeyD"],
+    "pan-up": ["ArrowUp", "KeyW"],
+    "pan-down": ["ArrowDown", "KeyS"],
+    "zoom-in": ["Equal"],
+    "zoom-out": ["Minus"],
+    "rotate-view-left": ["KeyQ"],
+    "rotate-view-right": ["KeyE"],
+    "undo": ["Ctrl+KeyZ"],
+    "redo": ["Ctrl+Shift+KeyZ"],
+    "cancel": ["Escape"],
+    "tool-inspect": ["Digit1"],
+    "tool-road": ["Digit2"],
+    "tool-raise": ["Digit3"],
+    "tool-lower": ["Digit4"],
+    "tool-build": ["Digit5"],
+    "tool-flatten": ["Digit6"],
+    "tool-smooth": ["Digit7"],
+    "tool-level": ["Digit8"],
+    "previous-tool": [],
+    "next-tool": [],
+    "previous-option": ["BracketLeft"],
+    "next-option": ["BracketRight"],
+    "rotate-building": ["KeyR"],
+    "brush-shape": ["KeyB"],
+    "target-height-down": ["Comma"],
+    "target-height-up": ["Period"],
+};
+
+/** Storage key the player's bindings are saved under */
+const STORAGE_KEY = "key-bindings";
+
+/** Modifier names in the order they are written in a chord */
+const MODIFIERS = ["Ctrl", "Alt", "Shift"] as const;
+
+/** Key codes of each modifier, which are never the main key of a chord */
+const MODIFIER_CODES: Record<(typeof MODIFIERS)[number], string[]> = {
+    Ctrl: ["ControlLeft", "ControlRight", "MetaLeft", "MetaRight"],
+    Alt: ["AltLeft", "AltRight"],
+    Shift: ["ShiftLeft", "ShiftRight"],
+};
+
+/** Names for keys whose codes do not read well, used when the keyboard layout is unknown */
+const KEY_NAMES: Record<string, string> = {
+    ArrowLeft: "←",
+    ArrowRight: "→",
+    ArrowUp: "↑",
+    ArrowDown: "↓",
+    BracketLeft: "[",
+    BracketRight: "]",
+    Comma: ",",
+    Period: ".",
+    Equal: "=",
+    Minus: "-",
+    Semicolon: ";",
+    Quote: "'",
+    Backquote: "`",
+    Backslash: "\\",
+    Slash: "/",
+    Escape: "Esc",
+};
+
+/**
+ * Which key chords trigger each action. Chords use physical key positions, so defaults
+ * stay in the same place on any layout; the player's changes are saved in local storage.
+ */
+export class KeyBindings {
+    private bindings: Map<InputAction, KeyChord[]> = new Map();
+    /** Characters printed on each key for the player's keyboard layout, when the browser reports them */
+    private layout: Map<string, string> | null = null;
+
+    constructor() {
+        this.load();
+        this.loadLayout();
+    }
+
+    /**
+     * Get the chords bound to an action
+     */
+    public getChords(action: InputAction): KeyChord[] {
+        return [...(this.bindings.get(action) ?? [])];
+    }
+
+    /**
+     * Replace the chords bound to an action and save the change
+     */
+    public setChords(action: InputAction, chords: KeyChord[]): void {
+        this.bindings.set(action, [...new Set(chords)]);
+        this.save();
+    }
+
+    /**
+     * Get every action a chord is bound to
+     */
+    public getActions(chord: KeyChord): InputAction[] {
+        return INPUT_ACTIONS.filter(action => this.bindings.get(action)?.includes(chord));
+    }
+
+    /**
+     * Get the other actions sharing a chord with an action, which a key press would trigger together
+     */
+    public getConflicts(action: InputAction): InputAction[] {
+        const conflicts = new Set<InputAction>();
+        for (const chord of this.getChords(action)) {
+            for (const other of this.getActions(chord)) {
+                if (other !== action) conflicts.add(other);
+            }
+        }
+
+        return [...conflicts];
+    }
+
+    /**
+     * Check whether any chord of an action is held, given the codes of the keys held down.
+     * Extra modifiers are allowed, so panning carries on while a modifier is also held.
+     */
+    public isHeld(action: InputAction, pressedKeys: Set<string>): boolean {
+        return this.getChords(action).some(chord => {
+            const parts = chord.split("+");
+            const code = parts.pop()!;
+            return pressedKeys.has(code) && parts.every(modifier =>
+                MODIFIER_CODES[modifier as (typeof MODIFIERS)[number]]?.some(key => pressedKeys.has(key)));
+        });
+    }
+
+    /**
+     * Put every action back on its default chords
+     */
+    public resetToDefaults(): void {
+        this.bindings.clear();
+        for (const action of INPUT_ACTIONS) {
+            this.bindings.set(action, [...DEFAULT_BINDINGS[action]]);
+        }
+        this.save();
+    }
+
+    /**
+     * Describe a chord for players, e.g. "Ctrl + Z", using the key names of their keyboard layout if known
+     */
+    public formatChord(chord: KeyChord): string {
+        const parts = chord.split("+");
+        const code = parts.pop()!;
+
+        const printed = this.layout?.get(code);
+        let name = printed ? printed.toUpperCase() : KEY_NAMES[code];
+        name ??= code.replace(/^(Key|Digit|Numpad)/, "");
+
+        return [...parts, name].join(" + ");
+    }
+
+    /**
+     * Describe the chords of an action for players, e.g. "← or A"
+     */
+    public describe(action: InputAction): string {
+        const chords = this.getChords(action);
+        return chords.length > 0 ? chords.map(chord => this.formatChord(chord)).join(" or ") : "Unbound";
+    }
+
+    /**
+     * Read saved bindings, falling back to the defaults for actions that were never saved
+     */
+    private load(): void {
+        const saved = storage.getObject(STORAGE_KEY) as Record<string, unknown> | undefined;
+
+        for (const action of INPUT_ACTIONS) {
+            const chords = saved?.[action];
+            const valid = Array.isArray(chords) && chords.every(chord => typeof chord === "string");
+            this.bindings.set(action, valid ? [...chords] : [...DEFAULT_BINDINGS[action]]);
+        }
+    }
+
+    private save(): void {
+        storage.setObject(STORAGE_KEY, Object.fromEntries(this.bindings));
+    }
+
+    /**
+     * Ask the browser for the keyboard layout, where supported, so keys are named as printed
+     */
+    private loadLayout(): void {
+        const keyboard = (globalThis.navigator as Navigator & {
+            keyboard?: { getLayoutMap(): Promise<Map<string, string>> };
+        } | undefined)?.keyboard;
+
+        keyboard?.getLayoutMap()
+            .then(layout => {
+                this.layout = layout;
+            })
+            .catch(() => {
+                // Names fall back to the US layout
+            });
+    }
+}
+
+/**
+ * Get the chord for a key press, or null for a modifier pressed on its own
+ */
+export function getChordFromEvent(event: KeyboardEvent): KeyChord | null {
+    if (Object.values(MODIFIER_CODES).some(codes => codes.includes(event.code))) return null;
+
+    const held = { Ctrl: event.ctrlKey || event.metaKey, Alt: event.altKey, Shift: event.shiftKey };
+    return [...MODIFIERS.filter(modifier => held[modifier]), event.code].join("+");
+}
+
+export const keyBindings = new KeyBindings();
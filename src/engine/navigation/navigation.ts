@@ -2,6 +2,7 @@ import type { Ticker } from "pixi.js";
 import { Assets, BigPool, Container } from "pixi.js";
 
 import type { BeachEngine } from "../engine";
+import type { InputLayer } from "../input/InputController";
 
 /** Interface for app screens */
 interface AppScreen extends Container {
@@ -36,7 +37,7 @@ interface AppScreenConstructor {
     assetBundles?: string[];
 }
 
-export class Navigation {
+export class Navigation implements InputLayer {
     /** Reference to the main application */
     public app!: BeachEngine;
 
@@ -206,6 +207,20 @@ export class Navigation {
         }
     }
 
+    /**
+     * Popups are modal, so while one is open it takes all pointer input from the screen underneath
+     */
+    public capturesPointer(): boolean {
+        return this.currentPopup !== undefined;
+    }
+
+    /**
+     * Popups are modal, so while one is open it takes all key input from the screen underneath
+     */
+    public capturesKeys(): boolean {
+        return this.currentPopup !== undefined;
+    }
+
     /**
      * Blur screens when lose focus
      */
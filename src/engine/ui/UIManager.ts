@@ -1,10 +1,17 @@
 import { Container } from "pixi.js";
+import type { EventSystem } from "pixi.js";
 import type { UIComponent } from "./types";
+import type { InputLayer } from "../input/InputController";
+import type { Coordinate } from "../world/IsometricUtils";
+
+/** Elements that take typing while focused */
+const TEXT_INPUT_TAGS = ["INPUT", "TEXTAREA", "SELECT"];
 
 /**
- * Central manager for all UI elements in the application
+ * Central manager for all UI elements in the application.
+ * As an input layer it keeps pointer input over interactive UI and typing into text inputs from the world.
  */
-export class UIManager {
+export class UIManager implements InputLayer {
     /** Root container for all UI elements */
     public container: Container;
     
@@ -20,7 +27,12 @@ export class UIManager {
     /** Whether the UI system is initialized */
     private isInitialized = false;
 
-    constructor() {
+    /** Pixi's event system, used to find what the pointer is over */
+    private events: EventSystem | null;
+
+    constructor(events: EventSystem | null = null) {
+        this.events = events;
+
         this.container = new Container();
         this.container.label = "UI Root";
         this.container.sortableChildren = true;
@@ -54,6 +66,27 @@ export class UIManager {
         }
     }
 
+    /**
+     * Check whether an interactive UI element is at a canvas position, going by each element's
+     * eventMode and hit area as Pixi does, so pointer input there is the UI's
+     */
+    public capturesPointer(position: Coordinate): boolean {
+        let target: Container | null = this.events?.rootBoundary.hitTest(position.x, position.y) ?? null;
+        for (; target; target = target.parent) {
+            if (target === this.container) return true;
+        }
+
+        return false;
+    }
+
+    /**
+     * Keys typed into a focused text input are the input's
+     */
+    public capturesKeys(event: KeyboardEvent | null): boolean {
+        const target = event?.target;
+        return target instanceof HTMLElement && (target.isContentEditable || TEXT_INPUT_TAGS.includes(target.tagName));
+    }
+
     /**
      * Update all UI components
      */
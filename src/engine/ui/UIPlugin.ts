@@ -19,7 +19,7 @@ export class BeachUIPlugin {
         const app = this as unknown as Application;
         
         // Create and initialize the UI manager
-        const uiManager = new UIManager();
+        const uiManager = new UIManager(app.renderer.events);
         
         // Add the UI container to the stage
         app.stage.addChild(uiManager.container);
@@ -1,7 +1,7 @@
-import { Assets, Graphics, Sprite, Text } from "pixi.js";
+import { Assets, Container, Graphics, Sprite, Text } from "pixi.js";
 import { UIContainer } from "../UIContainer";
 import type { UIButtonConfig } from "../types";
-import { UITheme } from "../colors";
+import { UIColors, UITheme } from "../colors";
 
 /**
  * Interactive button component with support for text, icons, and various states
@@ -10,9 +10,11 @@ export class UIButton extends UIContainer {
     private background: Graphics;
     private textDisplay?: Text;
     private iconDisplay?: Sprite;
-    private buttonConfig: Required<Pick<UIButtonConfig, 'backgroundColor' | 'borderColor' | 'borderWidth' | 'cornerRadius' | 'hoverColor' | 'pressedColor' | 'disabledColor'>> & UIButtonConfig;
+    private tooltipDisplay?: Container;
+    private buttonConfig: Required<Pick<UIButtonConfig, 'backgroundColor' | 'borderColor' | 'borderWidth' | 'cornerRadius' | 'hoverColor' | 'pressedColor' | 'disabledColor' | 'selectedBorderColor'>> & UIButtonConfig;
     
     private isHovered = false;
+    private isSelected = false;
     private currentColor: number;
 
     constructor(config: UIButtonConfig) {
@@ -31,6 +33,7 @@ export class UIButton extends UIContainer {
             hoverColor: themeColors.backgroundHover,
             pressedColor: themeColors.backgroundPressed,
             disabledColor: themeColors.backgroundDisabled,
+            selectedBorderColor: UIColors.white,
             disabled: false,
             variant,
             ...config
@@ -198,14 +201,66 @@ export class UIButton extends UIContainer {
             .roundRect(0, 0, this.buttonConfig.width, this.buttonConfig.height, this.buttonConfig.cornerRadius)
             .fill(this.currentColor);
         
-        // Draw border
-        if (this.buttonConfig.borderWidth > 0) {
+        // Draw border, highlighted while selected
+        if (this.isSelected) {
+            this.background
+                .roundRect(0, 0, this.buttonConfig.width, this.buttonConfig.height, this.buttonConfig.cornerRadius)
+                .stroke({ width: Math.max(2, this.buttonConfig.borderWidth), color: this.buttonConfig.selectedBorderColor });
+        }
+        else if (this.buttonConfig.borderWidth > 0) {
             this.background
                 .roundRect(0, 0, this.buttonConfig.width, this.buttonConfig.height, this.buttonConfig.cornerRadius)
                 .stroke({ width: this.buttonConfig.borderWidth, color: this.buttonConfig.borderColor });
         }
     }
 
+    /**
+     * Set whether the button is shown as selected
+     */
+    public setSelected(selected: boolean): void {
+        if (this.isSelected === selected) return;
+
+        this.isSelected = selected;
+        this.updateAppearance();
+    }
+
+    /**
+     * Show the tooltip under the button, reading its text now so it is never stale
+     */
+    private showTooltip(): void {
+        const { tooltip } = this.buttonConfig;
+        if (!tooltip) return;
+
+        this.hideTooltip();
+
+        const text = new Text({
+            text: typeof tooltip === 'function' ? tooltip() : tooltip,
+            style: { fontFamily: 'Arial', fontSize: 12, fill: UIColors.white },
+        });
+        text.position.set(6, 4);
+
+        const background = new Graphics()
+            .roundRect(0, 0, text.width + 12, text.height + 8, 4)
+            .fill({ color: UIColors.black, alpha: 0.85 });
+
+        this.tooltipDisplay = new Container();
+        this.tooltipDisplay.eventMode = 'none';
+        this.tooltipDisplay.addChild(background, text);
+        this.tooltipDisplay.position.set(
+            Math.round(((this.buttonConfig.width || 0) - background.width) / 2),
+            (this.buttonConfig.height || 0) + 4,
+        );
+        this.addChild(this.tooltipDisplay);
+
+        // Draw above sibling buttons, which the tooltip may overlap
+        this.parent?.addChild(this);
+    }
+
+    private hideTooltip(): void {
+        this.tooltipDisplay?.destroy({ children: true });
+        this.tooltipDisplay = undefined;
+    }
+
     /**
      * Event handlers
      */
@@ -215,6 +270,7 @@ export class UIButton extends UIContainer {
         this.isHovered = true;
         this.currentColor = this.buttonConfig.hoverColor;
         this.updateAppearance();
+        this.showTooltip();
         
         if (this.buttonConfig.onHover) {
             this.buttonConfig.onHover(true);
@@ -227,6 +283,7 @@ export class UIButton extends UIContainer {
         this.isHovered = false;
         this.currentColor = this.buttonConfig.backgroundColor;
         this.updateAppearance();
+        this.hideTooltip();
         
         if (this.buttonConfig.onHover) {
             this.buttonConfig.onHover(false);
@@ -238,6 +295,7 @@ export class UIButton extends UIContainer {
         
         this.currentColor = this.buttonConfig.pressedColor;
         this.updateAppearance();
+        this.hideTooltip();
     };
 
     private onPointerUp = (): void => {
@@ -322,6 +380,7 @@ export class UIButton extends UIContainer {
      * Clean up the button
      */
     public override destroy(): void {
+        this.hideTooltip();
         this.removeAllListeners();
         super.destroy();
     }
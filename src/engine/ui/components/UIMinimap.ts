@@ -0,0 +1,239 @@
+import { BufferImageSource, Graphics, Sprite, Texture } from "pixi.js";
+import type { FederatedPointerEvent } from "pixi.js";
+import { UIContainer } from "../UIContainer";
+import type { UIMinimapConfig } from "../types";
+import { UIColors, UITheme } from "../colors";
+import type { WorldController } from "../../world/WorldController";
+import type { GridPosition } from "../../world/WorldData";
+import { getTileMapColor } from "../../world/WorldThumbnail";
+
+/**
+ * Overview of the whole world, one pixel per tile colored by type, height, water and roads,
+ * with the part the camera shows outlined. Clicking or dragging on it moves the camera there.
+ * Call update once per frame to pick up changed tiles and camera movement.
+ */
+export class UIMinimap extends UIContainer {
+    private minimapConfig: Required<Pick<UIMinimapConfig, 'size' | 'backgroundColor' | 'borderColor' | 'borderWidth' | 'cornerRadius' | 'padding' | 'viewportColor'>> & UIMinimapConfig;
+    private world: WorldController;
+    private background: Graphics;
+    private map: Sprite;
+    private viewport: Graphics;
+    private viewportMask: Graphics;
+    /** Tile colors as RGBA bytes, one pixel per tile, uploaded to the map texture */
+    private pixels = new Uint8Array(0);
+    private texture: Texture | null = null;
+    /** Indices of tiles whose pixels are out of date, or null when every pixel is */
+    private dirtyTiles: Set<number> | null = null;
+    /** Viewport outline last drawn, to skip redrawing while the camera is still */
+    private lastViewportKey = '';
+    private isDragging = false;
+
+    constructor(world: WorldController, config: UIMinimapConfig = {}) {
+        // Clicks on the minimap move the camera rather than falling through to the world
+        super({ interactive: true, ...config });
+
+        this.minimapConfig = {
+            size: 160,
+            backgroundColor: UITheme.panel.backgroundColor,
+            borderColor: UITheme.panel.borderColor,
+            borderWidth: 1,
+            cornerRadius: 6,
+            padding: 8,
+            viewportColor: UIColors.white,
+            ...config
+        };
+        this.world = world;
+
+        this.background = new Graphics();
+        this.map = new Sprite();
+        this.viewport = new Graphics();
+        this.viewportMask = new Graphics();
+        this.viewport.mask = this.viewportMask;
+        this.addChild(this.background, this.map, this.viewportMask, this.viewport);
+
+        this.map.eventMode = 'static';
+        this.map.cursor = 'pointer';
+        this.map.on('pointerdown', this.handlePointerDown);
+        this.map.on('globalpointermove', this.handlePointerMove);
+        this.map.on('pointerup', this.handlePointerUp);
+        this.map.on('pointerupoutside', this.handlePointerUp);
+
+        this.world.addTileChangeListener(this.handleTileChange);
+        this.update();
+    }
+
+    /**
+     * Redraw changed tiles and the viewport outline
+     */
+    public override update(): void {
+        this.updateMap();
+        this.updateViewport();
+    }
+
+    /**
+     * Write the colors of changed tiles into the map texture, recreating it if the world changed size
+     */
+    private updateMap(): void {
+        const worldData = this.world.getWorldData();
+        if (!this.texture || this.texture.width !== worldData.width || this.texture.height !== worldData.height) {
+            this.createTexture(worldData.width, worldData.height);
+        }
+        if (this.dirtyTiles?.size === 0) return;
+
+        const setPixel = (x: number, y: number) => {
+            const tile = worldData.getTile(x, y);
+            if (!tile) return;
+
+            const color = getTileMapColor(worldData, tile);
+            const offset = (y * worldData.width + x) * 4;
+            this.pixels[offset] = (color >> 16) & 0xFF;
+            this.pixels[offset + 1] = (color >> 8) & 0xFF;
+            this.pixels[offset + 2] = color & 0xFF;
+            this.pixels[offset + 3] = 255;
+        };
+
+        if (this.dirtyTiles) {
+            for (const index of this.dirtyTiles) {
+                setPixel(index % worldData.width, Math.floor(index / worldData.width));
+            }
+        }
+        else {
+            worldData.forEachTile(tile => setPixel(tile.x, tile.y));
+        }
+
+        this.dirtyTiles = new Set();
+        this.texture!.source.update();
+    }
+
+    /**
+     * Make a texture with a pixel per tile, and size the minimap to fit it
+     */
+    private createTexture(width: number, height: number): void {
+        this.texture?.destroy(true);
+
+        this.pixels = new Uint8Array(width * height * 4);
+        this.texture = new Texture({
+            source: new BufferImageSource({ resource: this.pixels, width, height, format: 'rgba8unorm', scaleMode: 'nearest' }),
+        });
+        this.map.texture = this.texture;
+        this.dirtyTiles = null;
+
+        const { size, padding } = this.minimapConfig;
+        const scale = size / Math.max(width, height);
+        this.map.scale.set(scale);
+        this.map.position.set(padding, padding);
+
+        this.viewportMask.clear();
+        this.viewportMask.rect(padding, padding, width * scale, height * scale).fill(UIColors.white);
+
+        this.updateConfig({
+            width: width * scale + padding * 2,
+            height: height * scale + padding * 2,
+        });
+        this.updateBackground();
+        this.lastViewportKey = '';
+    }
+
+    /**
+     * Outline the area the camera shows, which is turned with the view.
+     * Tile (x, y) covers world [x - 1, x] but is drawn at map pixel [x, x + 1], hence the shift.
+     */
+    private updateViewport(): void {
+        const corners = this.world.getViewportCorners()
+            .map(corner => ({
+                x: this.map.x + (corner.x + 1) * this.map.scale.x,
+                y: this.map.y + (corner.y + 1) * this.map.scale.y,
+            }));
+
+        const key = corners.map(corner => `${corner.x.toFixed(1)},${corner.y.toFixed(1)}`).join(';');
+        if (key === this.lastViewportKey) return;
+        this.lastViewportKey = key;
+
+        this.viewport.clear();
+        this.viewport.poly(corners.flatMap(corner => [corner.x, corner.y])).stroke({
+            width: 1,
+            color: this.minimapConfig.viewportColor,
+        });
+    }
+
+    /**
+     * Redraw the minimap background and border
+     */
+    private updateBackground(): void {
+        const width = this.getConfig().width || 0;
+        const height = this.getConfig().height || 0;
+
+        this.background.clear();
+        this.background
+            .roundRect(0, 0, width, height, this.minimapConfig.cornerRadius)
+            .fill(this.minimapConfig.backgroundColor);
+
+        if (this.minimapConfig.borderWidth > 0) {
+            this.background
+                .roundRect(0, 0, width, height, this.minimapConfig.cornerRadius)
+                .stroke({
+                    width: this.minimapConfig.borderWidth,
+                    color: this.minimapConfig.borderColor
+                });
+        }
+    }
+
+    /**
+     * Center the camera on the tile under the pointer
+     */
+    private centerCameraAt(event: FederatedPointerEvent): void {
+        // The map's local space has one unit per tile, drawn one tile ahead of world coordinates
+        const position = event.getLocalPosition(this.map);
+        this.world.centerOn(position.x - 1, position.y - 1);
+    }
+
+    private handlePointerDown = (event: FederatedPointerEvent): void => {
+        if (event.button !== 0) return;
+
+        this.isDragging = true;
+        this.centerCameraAt(event);
+    };
+
+    private handlePointerMove = (event: FederatedPointerEvent): void => {
+        if (this.isDragging) {
+            this.centerCameraAt(event);
+        }
+    };
+
+    private handlePointerUp = (): void => {
+        this.isDragging = false;
+    };
+
+    /**
+     * Mark changed tiles for redrawing on the next update, or the whole map when the world was replaced
+     */
+    private handleTileChange = (tiles: GridPosition[] | null): void => {
+        if (!tiles) {
+            this.dirtyTiles = null;
+            return;
+        }
+
+        const width = this.world.getWorldData().width;
+        for (const tile of tiles) {
+            this.dirtyTiles?.add(tile.y * width + tile.x);
+        }
+    };
+
+    /**
+     * Clean up the minimap
+     */
+    public override destroy(): void {
+        this.world.removeTileChangeListener(this.handleTileChange);
+        this.map.off('pointerdown', this.handlePointerDown);
+        this.map.off('globalpointermove', this.handlePointerMove);
+        this.map.off('pointerup', this.handlePointerUp);
+        this.map.off('pointerupoutside', this.handlePointerUp);
+        this.texture?.destroy(true);
+        this.texture = null;
+        this.background.destroy();
+        this.map.destroy();
+        this.viewport.destroy();
+        this.viewportMask.destroy();
+        super.destroy();
+    }
+}
@@ -0,0 +1,168 @@
+import { Graphics, Text } from "pixi.js";
+import { UIContainer } from "../UIContainer";
+import type { UIPanelConfig } from "../types";
+import { UITheme } from "../colors";
+
+/**
+ * A single label/value line shown in a panel
+ */
+export interface UIPanelRow {
+    label: string;
+    value: string;
+}
+
+/**
+ * Panel component with a title and a list of label/value rows, sized to fit its content
+ */
+export class UIPanel extends UIContainer {
+    private panelConfig: Required<Pick<UIPanelConfig, 'backgroundColor' | 'borderColor' | 'borderWidth' | 'cornerRadius' | 'padding'>> & UIPanelConfig;
+    private background: Graphics;
+    private titleDisplay: Text;
+    private rowDisplays: { label: Text; value: Text }[] = [];
+    private textColor: number;
+
+    /** Space between the label and value columns */
+    private static readonly COLUMN_GAP = 12;
+    /** Space between rows */
+    private static readonly ROW_SPACING = 4;
+
+    constructor(config: UIPanelConfig = {}) {
+        // Clicks on the panel land on it rather than falling through to the world
+        super({ interactive: true, ...config });
+
+        this.panelConfig = {
+            backgroundColor: UITheme.panel.backgroundColor,
+            borderColor: UITheme.panel.borderColor,
+            borderWidth: 1,
+            cornerRadius: 6,
+            padding: 10,
+            ...config
+        };
+        this.textColor = config.textColor ?? UITheme.text.color;
+
+        this.background = new Graphics();
+        this.addChild(this.background);
+
+        this.titleDisplay = new Text({
+            text: config.title ?? '',
+            style: {
+                fontFamily: 'Arial',
+                fontSize: 14,
+                fontWeight: 'bold',
+                fill: this.textColor,
+            }
+        });
+        this.addChild(this.titleDisplay);
+
+        this.layoutContent();
+    }
+
+    /**
+     * Set the panel title
+     */
+    public setTitle(title: string): void {
+        if (this.titleDisplay.text === title) return;
+
+        this.titleDisplay.text = title;
+        this.layoutContent();
+    }
+
+    /**
+     * Replace the panel's rows, re-laying out only if something changed
+     */
+    public setRows(rows: UIPanelRow[]): void {
+        let changed = rows.length !== this.rowDisplays.length;
+
+        // Add or remove row text objects to match the number of rows
+        while (this.rowDisplays.length < rows.length) {
+            const style = { fontFamily: 'Arial', fontSize: 12, fill: this.textColor };
+            const row = { label: new Text({ text: '', style }), value: new Text({ text: '', style }) };
+            row.label.alpha = 0.7;
+            this.addChild(row.label, row.value);
+            this.rowDisplays.push(row);
+        }
+        while (this.rowDisplays.length > rows.length) {
+            const row = this.rowDisplays.pop()!;
+            row.label.destroy();
+            row.value.destroy();
+        }
+
+        rows.forEach((row, i) => {
+            const display = this.rowDisplays[i];
+            if (display.label.text !== row.label || display.value.text !== row.value) {
+                display.label.text = row.label;
+                display.value.text = row.value;
+                changed = true;
+            }
+        });
+
+        if (changed) {
+            this.layoutContent();
+        }
+    }
+
+    /**
+     * Position the title and rows, then resize the background to fit
+     */
+    private layoutContent(): void {
+        const padding = this.panelConfig.padding;
+        const labelWidth = Math.max(0, ...this.rowDisplays.map(row => row.label.width));
+
+        this.titleDisplay.x = padding;
+        this.titleDisplay.y = padding;
+
+        let width = this.titleDisplay.width;
+        let y = padding + this.titleDisplay.height + UIPanel.ROW_SPACING * 2;
+
+        for (const row of this.rowDisplays) {
+            row.label.x = padding;
+            row.label.y = y;
+            row.value.x = padding + labelWidth + UIPanel.COLUMN_GAP;
+            row.value.y = y;
+
+            width = Math.max(width, labelWidth + UIPanel.COLUMN_GAP + row.value.width);
+            y += Math.max(row.label.height, row.value.height) + UIPanel.ROW_SPACING;
+        }
+
+        this.updateConfig({
+            width: width + padding * 2,
+            height: y - UIPanel.ROW_SPACING + padding,
+        });
+        this.updateBackground();
+    }
+
+    /**
+     * Redraw the panel background and border
+     */
+    private updateBackground(): void {
+        const width = this.getConfig().width || 0;
+        const height = this.getConfig().height || 0;
+
+        this.background.clear();
+        this.background
+            .roundRect(0, 0, width, height, this.panelConfig.cornerRadius)
+            .fill(this.panelConfig.backgroundColor);
+
+        if (this.panelConfig.borderWidth > 0) {
+            this.background
+                .roundRect(0, 0, width, height, this.panelConfig.cornerRadius)
+                .stroke({
+                    width: this.panelConfig.borderWidth,
+                    color: this.panelConfig.borderColor
+                });
+        }
+    }
+
+    /**
+     * Clean up the panel
+     */
+    public override destroy(): void {
+        this.titleDisplay.destroy();
+        this.rowDisplays.forEach(row => {
+            row.label.destroy();
+            row.value.destroy();
+        });
+        this.rowDisplays = [];
+        super.destroy();
+    }
+}
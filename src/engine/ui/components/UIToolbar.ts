@@ -3,6 +3,8 @@ import { UIContainer } from "../UIContainer";
 import { UIButton } from "./UIButton";
 import type { UIToolbarConfig, UIToolConfig } from "../types";
 import { UITheme } from "../colors";
+import type { InputController } from "../../input/InputController";
+import type { InputAction } from "../../input/keyBindings";
 
 /**
  * Toolbar component that arranges buttons in a horizontal or vertical layout
@@ -12,14 +14,18 @@ export class UIToolbar extends UIContainer {
     private buttons: UIButton[] = [];
     private activeToolId?: string;
     private background: Graphics;
+    private shortcutInput?: InputController;
+    private shortcutListeners: { action: InputAction; callback: () => void }[] = [];
 
     constructor(config: UIToolbarConfig) {
-        super(config);
+        // Clicks between buttons land on the toolbar rather than falling through to the world
+        super({ interactive: true, ...config });
         
         this.toolbarConfig = {
             spacing: 8,
             padding: 8,
             uniformButtonSize: false,
+            selectable: true,
             backgroundColor: UITheme.panel.backgroundColor,
             borderColor: UITheme.panel.borderColor,
             borderWidth: 1,
@@ -46,6 +52,7 @@ export class UIToolbar extends UIContainer {
                 text: toolConfig.name || toolConfig.id,
                 icon: toolConfig.icon,
                 variant: toolConfig.variant || 'default',
+                tooltip: toolConfig.tooltip,
                 cornerRadius: this.toolbarConfig.cornerRadius,
                 onClick: () => this.onToolClick(toolConfig),
                 interactive: true
@@ -62,29 +69,85 @@ export class UIToolbar extends UIContainer {
      */
     private onToolClick(toolConfig: UIToolConfig): void {
         // Set this tool as active
-        this.setActiveTool(toolConfig.id);
+        if (this.toolbarConfig.selectable) {
+            this.setActiveTool(toolConfig.id);
+        }
         
         // Call the tool's click handler
         toolConfig.onClick();
     }
 
     /**
-     * Set the active tool
+     * Set the active tool, highlighting its button.
+     * This only updates the toolbar; use selectTool to also run the tool's click handler.
      */
     public setActiveTool(toolId: string): void {
         this.activeToolId = toolId;
         
-        // Update button appearances (for future styling)
-        this.buttons.forEach((_, index) => {
-            const toolConfig = this.toolbarConfig.tools[index];
-            // For now, we'll just log which tool is active
-            // Later we can add visual feedback for active state
-            if (toolConfig.id === toolId) {
-                console.log(`Activated tool: ${toolId}`);
-            }
+        this.buttons.forEach((button, index) => {
+            button.setSelected(this.toolbarConfig.tools[index].id === toolId);
         });
     }
 
+    /**
+     * Select a tool as if its button was clicked
+     */
+    public selectTool(toolId: string): void {
+        const toolConfig = this.toolbarConfig.tools.find(tool => tool.id === toolId);
+        if (toolConfig) {
+            this.onToolClick(toolConfig);
+        }
+    }
+
+    /**
+     * Select a tool a number of places before or after the active one, wrapping around the ends
+     */
+    public selectAdjacentTool(offset: number): void {
+        const tools = this.toolbarConfig.tools;
+        if (tools.length === 0) return;
+
+        const index = tools.findIndex(tool => tool.id === this.activeToolId);
+        const next = ((Math.max(index, 0) + offset) % tools.length + tools.length) % tools.length;
+        this.selectTool(tools[next].id);
+    }
+
+    /**
+     * Select tools when the keys bound to their shortcut actions are pressed.
+     * Selectable toolbars also cycle through their tools with the previous-tool and next-tool actions.
+     */
+    public bindShortcuts(input: InputController): void {
+        this.unbindShortcuts();
+        this.shortcutInput = input;
+
+        const cycling: [InputAction, number][] = this.toolbarConfig.selectable
+            ? [['previous-tool', -1], ['next-tool', 1]]
+            : [];
+        for (const [action, offset] of cycling) {
+            const callback = () => this.selectAdjacentTool(offset);
+            input.addActionListener(action, callback);
+            this.shortcutListeners.push({ action, callback });
+        }
+
+        for (const toolConfig of this.toolbarConfig.tools) {
+            if (!toolConfig.shortcut) continue;
+
+            const callback = () => this.selectTool(toolConfig.id);
+            input.addActionListener(toolConfig.shortcut, callback);
+            this.shortcutListeners.push({ action: toolConfig.shortcut, callback });
+        }
+    }
+
+    /**
+     * Stop listening for tool shortcut keys
+     */
+    public unbindShortcuts(): void {
+        for (const { action, callback } of this.shortcutListeners) {
+            this.shortcutInput?.removeActionListener(action, callback);
+        }
+        this.shortcutListeners = [];
+        this.shortcutInput = undefined;
+    }
+
     /**
      * Get the currently active tool ID
      */
@@ -260,6 +323,7 @@ export class UIToolbar extends UIContainer {
      * Clean up the toolbar
      */
     public override destroy(): void {
+        this.unbindShortcuts();
         this.buttons.forEach(button => button.destroy());
         this.buttons = [];
         super.destroy();
@@ -6,6 +6,8 @@ export { BeachUIPlugin } from "./UIPlugin";
 // Components
 export { UIButton } from "./components/UIButton";
 export { UIToolbar } from "./components/UIToolbar";
+export { UIPanel } from "./components/UIPanel";
+export { UIMinimap } from "./components/UIMinimap";
 
 // Colors and theming
 export { UIColors, UISemanticColors, UITheme, withAlpha, lightenColor, darkenColor } from "./colors";
@@ -17,7 +19,9 @@ export type {
     UIButtonConfig,
     UIButtonVariant,
     UIPanelConfig,
+    UIMinimapConfig,
     UILabelConfig,
     UIToolConfig,
     UIToolbarConfig,
 } from "./types";
+export type { UIPanelRow } from "./components/UIPanel";
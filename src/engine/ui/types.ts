@@ -1,4 +1,5 @@
 import type { Container, Texture } from "pixi.js";
+import type { InputAction } from "../input/keyBindings";
 
 /**
  * Position anchor types for responsive positioning
@@ -69,6 +70,8 @@ export interface UIButtonConfig extends UIComponentConfig {
     pressedColor?: number;
     /** Color when disabled */
     disabledColor?: number;
+    /** Border color when selected, e.g. the active tool in a toolbar */
+    selectedBorderColor?: number;
     
     /** Click callback */
     onClick?: () => void;
@@ -77,8 +80,8 @@ export interface UIButtonConfig extends UIComponentConfig {
     /** Whether button is disabled */
     disabled?: boolean;
     
-    /** Tooltip text on hover */
-    tooltip?: string;
+    /** Tooltip text on hover, or a function giving it each time it is shown */
+    tooltip?: string | (() => string);
 }
 
 /**
@@ -95,6 +98,30 @@ export interface UIPanelConfig extends UIComponentConfig {
     cornerRadius?: number;
     /** Internal padding */
     padding?: number;
+    /** Title shown at the top of the panel */
+    title?: string;
+    /** Color of the panel's text */
+    textColor?: number;
+}
+
+/**
+ * Configuration for minimaps
+ */
+export interface UIMinimapConfig extends UIComponentConfig {
+    /** Width or height of the map, whichever is larger, in pixels */
+    size?: number;
+    /** Background color */
+    backgroundColor?: number;
+    /** Border color */
+    borderColor?: number;
+    /** Border thickness */
+    borderWidth?: number;
+    /** Corner radius for rounded corners */
+    cornerRadius?: number;
+    /** Space around the map */
+    padding?: number;
+    /** Color of the outline of the area the camera shows */
+    viewportColor?: number;
 }
 
 /**
@@ -123,10 +150,10 @@ export interface UIToolConfig {
     name?: string;
     /** Tool icon */
     icon: string | Texture;
-    /** Tool tooltip */
-    tooltip?: string;
-    /** Keyboard shortcut (e.g., "KeyB") */
-    shortcut?: string;
+    /** Tool tooltip, or a function giving it each time it is shown */
+    tooltip?: string | (() => string);
+    /** Input action that selects the tool from the keyboard (e.g., "tool-road") */
+    shortcut?: InputAction;
     /** Tool activation callback */
     onClick: () => void;
     /** Whether tool is currently active */
@@ -147,6 +174,8 @@ export interface UIToolbarConfig extends UIComponentConfig {
     padding?: number;
     /** Whether all buttons should have uniform width (based on widest button) */
     uniformButtonSize?: boolean;
+    /** Whether clicking a button marks it as the active tool (default: true); disable for one-off actions */
+    selectable?: boolean;
     
     /** Background color */
     backgroundColor?: number;
@@ -0,0 +1,66 @@
+/**
+ * Run-length encode bytes as (count, value) pairs, with runs of at most 255
+ * @param data - Bytes to encode
+ * @returns Encoded bytes
+ */
+export function runLengthEncode(data: Uint8Array): Uint8Array {
+    const output: number[] = [];
+
+    let i = 0;
+    while (i < data.length) {
+        const value = data[i];
+        let count = 1;
+        while (i + count < data.length && data[i + count] === value && count < 255) {
+            count++;
+        }
+        output.push(count, value);
+        i += count;
+    }
+
+    return new Uint8Array(output);
+}
+
+/**
+ * Decode bytes produced by runLengthEncode
+ * @param data - Encoded (count, value) pairs
+ * @param length - Expected number of decoded bytes
+ * @returns Decoded bytes, or null if the data does not decode to exactly `length` bytes
+ */
+export function runLengthDecode(data: Uint8Array, length: number): Uint8Array | null {
+    const output = new Uint8Array(length);
+
+    let offset = 0;
+    for (let i = 0; i + 1 < data.length; i += 2) {
+        const count = data[i];
+        if (offset + count > length) return null;
+
+        output.fill(data[i + 1], offset, offset + count);
+        offset += count;
+    }
+
+    return offset === length ? output : null;
+}
+
+/**
+ * Convert bytes to a base64 string
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+    let binary = "";
+    // Convert in slices to stay under the argument limit of String.fromCharCode
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+/**
+ * Convert a base64 string back to bytes
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
@@ -0,0 +1,42 @@
+/**
+ * Offer text content to the user as a file download
+ * @param fileName - Suggested name for the downloaded file
+ * @param content - File contents
+ * @param type - MIME type of the contents
+ */
+export function downloadTextFile(fileName: string, content: string, type = "application/json"): void {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+
+    // Give the browser a moment to start the download before releasing the data
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Ask the user to pick a file and read it as text
+ * @param accept - File types to offer, in the format of an input's accept attribute
+ * @returns The file's contents, or null if the user cancelled
+ */
+export function openTextFile(accept = ".json,application/json"): Promise<string | null> {
+    return new Promise((resolve, reject) => {
+        const input = document.createElement("input");
+        input.type = "file";
+        input.accept = accept;
+
+        input.addEventListener("change", () => {
+            const file = input.files?.[0];
+            if (!file) {
+                resolve(null);
+                return;
+            }
+            file.text().then(resolve, reject);
+        });
+        input.addEventListener("cancel", () => resolve(null));
+
+        input.click();
+    });
+}
@@ -0,0 +1,88 @@
+import { lerp } from "./maths";
+import { randomShuffle } from "./random";
+
+/**
+ * Creates a seeded 2D gradient (Perlin) noise function
+ * @param random - The random function used to build the permutation table (defaults to Math.random)
+ * @returns Function returning noise in roughly the range -1 to 1
+ */
+export function createNoise2D(random = Math.random): (x: number, y: number) => number {
+    const permutation = randomShuffle(
+        Array.from({ length: 256 }, (_, i) => i),
+        random,
+    );
+    const perm = new Uint8Array(512);
+    for (let i = 0; i < 512; i++) {
+        perm[i] = permutation[i & 255];
+    }
+
+    return (x: number, y: number): number => {
+        const xi = Math.floor(x) & 255;
+        const yi = Math.floor(y) & 255;
+        const xf = x - Math.floor(x);
+        const yf = y - Math.floor(y);
+
+        const u = fade(xf);
+        const v = fade(yf);
+
+        const aa = perm[perm[xi] + yi];
+        const ab = perm[perm[xi] + yi + 1];
+        const ba = perm[perm[xi + 1] + yi];
+        const bb = perm[perm[xi + 1] + yi + 1];
+
+        const x1 = lerp(gradient(aa, xf, yf), gradient(ba, xf - 1, yf), u);
+        const x2 = lerp(gradient(ab, xf, yf - 1), gradient(bb, xf - 1, yf - 1), u);
+
+        return lerp(x1, x2, v);
+    };
+}
+
+/**
+ * Sum several octaves of a noise function into fractal noise
+ * @param noise - Base noise function, returning roughly -1 to 1
+ * @param octaves - Number of layers of detail
+ * @param lacunarity - Frequency multiplier between octaves
+ * @param gain - Amplitude multiplier between octaves
+ * @returns Noise normalized to roughly the range 0 to 1
+ */
+export function fractalNoise2D(
+    noise: (x: number, y: number) => number,
+    x: number,
+    y: number,
+    octaves = 4,
+    lacunarity = 2,
+    gain = 0.5,
+): number {
+    let sum = 0;
+    let amplitude = 1;
+    let frequency = 1;
+    let total = 0;
+
+    for (let i = 0; i < octaves; i++) {
+        sum += noise(x * frequency, y * frequency) * amplitude;
+        total += amplitude;
+        amplitude *= gain;
+        frequency *= lacunarity;
+    }
+
+    return (sum / total + 1) / 2;
+}
+
+/** Perlin smoothstep curve */
+function fade(t: number) {
+    return t * t * t * (t * (t * 6 - 15) + 10);
+}
+
+/** Dot product of one of eight gradient directions with the offset */
+function gradient(hash: number, x: number, y: number) {
+    switch (hash & 7) {
+        case 0: return x + y;
+        case 1: return -x + y;
+        case 2: return x - y;
+        case 3: return -x - y;
+        case 4: return x;
+        case 5: return -x;
+        case 6: return y;
+        default: return -y;
+    }
+}
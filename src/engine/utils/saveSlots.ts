@@ -0,0 +1,135 @@
+/**
+ * Summary of a save slot, without its (possibly large) data
+ */
+export interface SaveSlotInfo {
+    /** Unique slot name */
+    name: string;
+    /** Time of the last save, in milliseconds since the epoch */
+    savedAt: number;
+    /** Small preview image as a data URL */
+    thumbnail: string;
+}
+
+/** Object store holding SaveSlotInfo records, keyed by name */
+const SLOTS_STORE = "slots";
+/** Object store holding each slot's save data, keyed by name */
+const DATA_STORE = "data";
+
+/**
+ * Named save slots kept in IndexedDB, which handles far larger saves than localStorage.
+ * Slot summaries and save data live in separate stores, so listing slots stays cheap.
+ * Small settings still belong in StorageWrapper.
+ */
+export class SaveSlotStorage {
+    private dbName: string;
+    private factory: IDBFactory;
+    private db: Promise<IDBDatabase> | null = null;
+
+    /**
+     * @param dbName - Name of the IndexedDB database
+     * @param factory - IndexedDB implementation, replaceable with a fake outside the browser
+     */
+    constructor(dbName = "kalarand-saves", factory: IDBFactory = globalThis.indexedDB) {
+        this.dbName = dbName;
+        this.factory = factory;
+    }
+
+    /**
+     * List all slots, most recently saved first
+     */
+    public async list(): Promise<SaveSlotInfo[]> {
+        const slots = await this.request<SaveSlotInfo[]>(SLOTS_STORE, "readonly", store => store.getAll());
+        return slots.sort((a, b) => b.savedAt - a.savedAt);
+    }
+
+    /**
+     * Write save data to a slot, replacing anything already in it
+     */
+    public async save(name: string, data: unknown, thumbnail: string): Promise<void> {
+        const db = await this.open();
+        const transaction = db.transaction([SLOTS_STORE, DATA_STORE], "readwrite");
+
+        const info: SaveSlotInfo = { name, savedAt: Date.now(), thumbnail };
+        transaction.objectStore(SLOTS_STORE).put(info);
+        transaction.objectStore(DATA_STORE).put(data, name);
+
+        await completion(transaction);
+    }
+
+    /**
+     * Read a slot's save data
+     * @returns the data, or undefined if the slot does not exist
+     */
+    public load<T>(name: string): Promise<T | undefined> {
+        return this.request<T | undefined>(DATA_STORE, "readonly", store => store.get(name));
+    }
+
+    /**
+     * Delete a slot and its data
+     */
+    public async delete(name: string): Promise<void> {
+        const db = await this.open();
+        const transaction = db.transaction([SLOTS_STORE, DATA_STORE], "readwrite");
+
+        transaction.objectStore(SLOTS_STORE).delete(name);
+        transaction.objectStore(DATA_STORE).delete(name);
+
+        await completion(transaction);
+    }
+
+    /**
+     * Open the database once, creating its stores on first use
+     */
+    private open(): Promise<IDBDatabase> {
+        if (!this.db) {
+            this.db = new Promise((resolve, reject) => {
+                const request = this.factory.open(this.dbName, 1);
+
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    if (!db.objectStoreNames.contains(SLOTS_STORE)) {
+                        db.createObjectStore(SLOTS_STORE, { keyPath: "name" });
+                    }
+                    if (!db.objectStoreNames.contains(DATA_STORE)) {
+                        db.createObjectStore(DATA_STORE);
+                    }
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+
+            // Allow a later call to retry if opening failed
+            this.db.catch(() => {
+                this.db = null;
+            });
+        }
+
+        return this.db;
+    }
+
+    /**
+     * Run a single request against one object store
+     */
+    private async request<T>(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+        const db = await this.open();
+        const request = run(db.transaction(storeName, mode).objectStore(storeName));
+
+        return new Promise((resolve, reject) => {
+            request.onsuccess = () => resolve(request.result as T);
+            request.onerror = () => reject(request.error);
+        });
+    }
+}
+
+/**
+ * Wait for a transaction to commit
+ */
+function completion(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
+
+export const saveSlots = new SaveSlotStorage();
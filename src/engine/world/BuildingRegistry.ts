@@ -0,0 +1,165 @@
+import { Assets, Texture } from "pixi.js";
+import type { GridPosition } from "./WorldData";
+
+/**
+ * Direction a building is rendered facing, matching the angle names
+ * written by the 3D asset renderer
+ */
+export type BuildingFacing = "ne" | "nw" | "sw" | "se";
+
+/**
+ * Facings in the order reached by turning a building 90° at a time
+ */
+export const BUILDING_FACINGS: readonly BuildingFacing[] = ["ne", "nw", "sw", "se"];
+
+/**
+ * Metadata the 3D asset renderer writes for each rendered view of a model
+ */
+export interface AngleMetadata {
+    angle: number;
+    angleName: string;
+    file: string;
+    footprint: GridPosition;
+    renderDimensions?: { width: number; height: number };
+}
+
+/**
+ * Metadata the 3D asset renderer writes for each model, keyed by model name in models-metadata.json
+ */
+export interface ModelMetadata {
+    modelName: string;
+    /** Tiles covered along the world x and y axes */
+    baseFootprint: GridPosition;
+    worldSize: { width: number; height: number; depth: number };
+    renderDimensions?: { width: number; height: number };
+    angles: AngleMetadata[];
+    renderDate: string;
+}
+
+/**
+ * A kind of building that can be placed in the world
+ */
+export interface BuildingDefinition {
+    /** Unique id, the name of the model it was rendered from */
+    id: string;
+    /** Name shown to the player */
+    name: string;
+    /** Tiles covered along the world x and y axes when facing north-east */
+    footprint: GridPosition;
+    /** Rendered view for each facing; facings without a render fall back to another one */
+    textures: Record<BuildingFacing, Texture>;
+}
+
+/**
+ * Alias of the metadata file the asset pipeline writes next to the rendered buildings
+ */
+const MODELS_METADATA_ALIAS = "2d/models-metadata.json";
+
+/**
+ * Catalogue of the buildings available to place
+ */
+export class BuildingRegistry {
+    private definitions: Map<string, BuildingDefinition> = new Map();
+
+    /**
+     * Add a definition, replacing any existing one with the same id
+     */
+    public register(definition: BuildingDefinition): void {
+        this.definitions.set(definition.id, definition);
+    }
+
+    /**
+     * Get a definition by id
+     */
+    public get(id: string): BuildingDefinition | undefined {
+        return this.definitions.get(id);
+    }
+
+    /**
+     * Get every definition, in registration order
+     */
+    public getAll(): BuildingDefinition[] {
+        return [...this.definitions.values()];
+    }
+
+    /**
+     * Register a definition for every model in the rendered models metadata,
+     * loading their textures. Missing metadata leaves the registry empty.
+     */
+    public async loadFromMetadata(alias = MODELS_METADATA_ALIAS): Promise<void> {
+        let metadata: Record<string, ModelMetadata>;
+        try {
+            metadata = await Assets.load(alias);
+        }
+        catch (error) {
+            console.warn(`No building metadata found at "${alias}"; no buildings are available`, error);
+            return;
+        }
+
+        for (const model of Object.values(metadata ?? {})) {
+            try {
+                this.register(await createDefinition(model));
+            }
+            catch (error) {
+                console.warn(`Failed to load building "${model.modelName}":`, error);
+            }
+        }
+    }
+}
+
+/**
+ * Build a definition from a model's metadata, loading the texture of each rendered angle
+ * @throws Error if the model has no rendered angles
+ */
+async function createDefinition(model: ModelMetadata): Promise<BuildingDefinition> {
+    const loaded = new Map<BuildingFacing, Texture>();
+    for (const angle of model.angles) {
+        if (!BUILDING_FACINGS.includes(angle.angleName as BuildingFacing)) continue;
+        loaded.set(angle.angleName as BuildingFacing, await Assets.load(`2d/${angle.file}`));
+    }
+
+    const fallback = loaded.values().next().value;
+    if (!fallback) {
+        throw new Error("Model has no rendered angles");
+    }
+
+    const textures = {} as Record<BuildingFacing, Texture>;
+    for (const facing of BUILDING_FACINGS) {
+        textures[facing] = loaded.get(facing) ?? fallback;
+    }
+
+    return {
+        id: model.modelName,
+        name: formatModelName(model.modelName),
+        footprint: { x: Math.max(1, model.baseFootprint.x), y: Math.max(1, model.baseFootprint.y) },
+        textures,
+    };
+}
+
+/**
+ * Turn a model file name such as "building-small-a" into "Building Small A"
+ */
+function formatModelName(modelName: string): string {
+    return modelName
+        .split(/[-_\s]+/)
+        .filter(word => word.length > 0)
+        .map(word => word[0].toUpperCase() + word.slice(1))
+        .join(" ");
+}
+
+/**
+ * Get a building's footprint when turned to a facing: east and west facings swap the axes
+ */
+export function getRotatedFootprint(footprint: GridPosition, facing: BuildingFacing): GridPosition {
+    return facing === "nw" || facing === "se"
+        ? { x: footprint.y, y: footprint.x }
+        : { x: footprint.x, y: footprint.y };
+}
+
+/**
+ * Turn a facing by 90° steps through BUILDING_FACINGS
+ */
+export function rotateFacing(facing: BuildingFacing, steps: number): BuildingFacing {
+    const index = BUILDING_FACINGS.indexOf(facing);
+    return BUILDING_FACINGS[(((index + steps) % 4) + 4) % 4];
+}
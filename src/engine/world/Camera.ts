@@ -1,5 +1,17 @@
-import type { Coordinate } from "./IsometricUtils";
-import { worldToScreen } from "./IsometricUtils";
+import type { Coordinate, ViewRotation } from "./IsometricUtils";
+import { rotateVector, screenToWorld, TILE_DEPTH, worldToScreen, worldToView } from "./IsometricUtils";
+
+/**
+ * A point in the world held under a point on screen while zooming
+ */
+export interface ZoomAnchor {
+    /** Screen position to hold the point at, in pixels from the centre of the view */
+    offset: Coordinate;
+    /** World position of the point */
+    world: Coordinate;
+    /** Height of the point above the ground plane, in corner height units */
+    height: number;
+}
 
 /**
  * Camera controller for the isometric world
@@ -10,17 +22,28 @@ export class Camera {
 
     /** Camera movement speed in world units per frame */
     public speed: number = 0.3;
+
+    /** Whether holding the cursor near the edge of the screen moves the camera */
+    public edgePanning: boolean = true;
+    /** Distance from the screen edge, in pixels, within which the cursor pans the camera */
+    public edgePanMargin: number = 16;
     
     /** Zoom level (1x = normal, 2x = zoomed in 2x, etc.) */
     public zoom: number = 2.0;
-    public minZoom: number = 1.0;
+    public minZoom: number = 0.5;
     public maxZoom: number = 4.0;
-    public zoomSpeed: number = 1.0; // Changed to 1.0 for integer steps
+    /** Zoom levels that zooming in and out steps between; whole numbers keep pixels crisp */
+    public zoomStops: number[] = [0.5, 0.75, 1, 1.5, 2, 3, 4];
     
     /** Smooth movement settings */
     public smoothing: number = 0.15;
     private nextTarget: Coordinate = { x: 0, y: 0 };
     private nextZoom: number = 2.0;
+    /** Point held still on screen until the current zoom finishes, or null to zoom around the target */
+    private zoomAnchor: ZoomAnchor | null = null;
+
+    /** Number of 90° clockwise turns of the view */
+    private rotation: ViewRotation = 0;
     
     /** World bounds */
     private minX: number = 0;
@@ -40,12 +63,26 @@ export class Camera {
 
     /**
      * Set camera target position
+     * @param immediate - move there now instead of easing, e.g. to keep up with a dragged pointer
      */
-    public setNextTarget(worldX: number, worldY: number): void {
+    public setNextTarget(worldX: number, worldY: number, immediate: boolean = false): void {
+        // Moving takes over from any point held by zooming
+        this.zoomAnchor = null;
+        this.setTarget(worldX, worldY, immediate);
+    }
+
+    /**
+     * Set the clamped target position, keeping any zoom anchor
+     */
+    private setTarget(worldX: number, worldY: number, immediate: boolean): void {
         this.nextTarget = {
             x: Math.max(this.minX, Math.min(this.maxX, worldX)),
             y: Math.max(this.minY, Math.min(this.maxY, worldY))
         };
+
+        if (immediate) {
+            this.target = { x: this.nextTarget.x, y: this.nextTarget.y };
+        }
     }
 
     /**
@@ -56,25 +93,77 @@ export class Camera {
     }
 
     /**
-     * Set zoom level (rounded to nearest integer)
+     * Set zoom level, within minZoom and maxZoom
+     * @param anchor - point to hold still on screen while zooming; the camera target stays centred if omitted
+     * @param immediate - zoom now instead of easing, e.g. to keep up with a pinch
      */
-    public setZoom(zoom: number): void {
-        const integerZoom = Math.round(zoom);
-        this.nextZoom = Math.max(this.minZoom, Math.min(this.maxZoom, integerZoom));
+    public setZoom(zoom: number, anchor?: ZoomAnchor, immediate: boolean = false): void {
+        this.nextZoom = Math.max(this.minZoom, Math.min(this.maxZoom, zoom));
+        this.zoomAnchor = anchor ?? null;
+
+        if (immediate) {
+            this.zoom = this.nextZoom;
+            this.applyZoomAnchor();
+        }
     }
 
     /**
-     * Zoom in by one integer level
+     * Get the zoom level the camera is easing towards
      */
-    public zoomIn(): void {
-        this.setZoom(this.nextZoom + 1);
+    public getNextZoom(): number {
+        return this.nextZoom;
     }
 
     /**
-     * Zoom out by one integer level
+     * Zoom in to the next zoom stop
      */
-    public zoomOut(): void {
-        this.setZoom(this.nextZoom - 1);
+    public zoomIn(anchor?: ZoomAnchor): void {
+        const stop = this.zoomStops.find(stop => stop > this.nextZoom + 0.001);
+        if (stop !== undefined) {
+            this.setZoom(stop, anchor);
+        }
+    }
+
+    /**
+     * Zoom out to the previous zoom stop
+     */
+    public zoomOut(anchor?: ZoomAnchor): void {
+        const stop = [...this.zoomStops].reverse().find(stop => stop < this.nextZoom - 0.001);
+        if (stop !== undefined) {
+            this.setZoom(stop, anchor);
+        }
+    }
+
+    /**
+     * Ease to the zoom stop nearest the zoom level being eased towards, e.g. after a pinch
+     */
+    public snapZoomToStop(anchor?: ZoomAnchor): void {
+        const nearest = this.zoomStops.reduce((best, stop) =>
+            Math.abs(stop - this.nextZoom) < Math.abs(best - this.nextZoom) ? stop : best, this.nextZoom);
+        this.setZoom(nearest, anchor);
+    }
+
+    /**
+     * Check whether the zoom is a whole number, where every texture pixel covers whole screen pixels
+     */
+    public isPixelPerfect(): boolean {
+        return Number.isInteger(this.zoom);
+    }
+
+    /**
+     * Get the view rotation, in 90° clockwise turns
+     */
+    public getRotation(): ViewRotation {
+        return this.rotation;
+    }
+
+    /**
+     * Turn the view by 90° steps around the camera target, clockwise for positive steps
+     */
+    public rotate(steps: number): void {
+        this.rotation = ((((this.rotation + steps) % 4) + 4) % 4) as ViewRotation;
+        // The anchor's screen position no longer matches its world position
+        this.zoomAnchor = null;
     }
 
     /**
@@ -95,13 +184,36 @@ export class Camera {
             this.target.y = this.nextTarget.y;
             this.zoom = this.nextZoom;
         }
+
+        this.applyZoomAnchor();
+    }
+
+    /**
+     * Move the target so the zoom anchor stays at its screen position at the current zoom,
+     * releasing it once the zoom has finished
+     */
+    private applyZoomAnchor(): void {
+        const anchor = this.zoomAnchor;
+        if (!anchor) return;
+
+        // The anchor's offset from the target in view space, allowing for its height lifting it up the screen
+        const view = screenToWorld({
+            x: anchor.offset.x / this.zoom,
+            y: anchor.offset.y / this.zoom + anchor.height * TILE_DEPTH,
+        });
+        const delta = rotateVector(view, -this.rotation);
+        this.setTarget(anchor.world.x - delta.x, anchor.world.y - delta.y, true);
+
+        if (this.zoom === this.nextZoom) {
+            this.zoomAnchor = null;
+        }
     }
 
     /**
      * Get the camera's screen position for rendering offset
      */
     public getScreenPosition(): Coordinate {
-        const screenPos = worldToScreen(this.target);
+        const screenPos = worldToScreen(worldToView(this.target, this.rotation));
         return {
             x: -screenPos.x * this.zoom,
             y: -screenPos.y * this.zoom
@@ -114,6 +226,7 @@ export class Camera {
     public snapToNextTarget(): void {
         this.target = { x: this.nextTarget.x, y: this.nextTarget.y };
         this.zoom = this.nextZoom;
+        this.zoomAnchor = null;
     }
 
     /**
@@ -0,0 +1,171 @@
+import type { Building, GridPosition, Tile, WorldData, WorldRecording } from "./WorldData";
+
+/**
+ * Maximum number of undo steps kept
+ */
+const HISTORY_LIMIT = 100;
+
+/**
+ * A reversible change to the world
+ */
+export interface WorldCommand {
+    /**
+     * Revert the change
+     * @returns the tiles whose data changed
+     */
+    undo(world: WorldData): GridPosition[];
+    /**
+     * Re-apply the change after it was undone
+     * @returns the tiles whose data changed
+     */
+    redo(world: WorldData): GridPosition[];
+}
+
+/**
+ * Buildings by id, null where a building does not exist
+ */
+type BuildingStates = Map<number, Building | null>;
+
+/**
+ * Change to a set of tiles and the buildings on them, stored as their state before and after
+ */
+export class TileChangeCommand implements WorldCommand {
+    private before: Tile[];
+    private after: Tile[];
+    private buildingsBefore: BuildingStates;
+    private buildingsAfter: BuildingStates;
+
+    constructor(before: Tile[], after: Tile[], buildingsBefore: BuildingStates = new Map(), buildingsAfter: BuildingStates = new Map()) {
+        this.before = before;
+        this.after = after;
+        this.buildingsBefore = buildingsBefore;
+        this.buildingsAfter = buildingsAfter;
+    }
+
+    /**
+     * Build a command from a WorldData recording, reading the current state of each tile and building as its "after"
+     * @returns the command, or null if nothing actually changed
+     */
+    public static fromRecording(world: WorldData, recorded: WorldRecording): TileChangeCommand | null {
+        const before: Tile[] = [];
+        const after: Tile[] = [];
+
+        for (const original of recorded.tiles.values()) {
+            const current = world.getTile(original.x, original.y)!;
+            if (isSameTile(original, current)) continue;
+
+            before.push(original);
+            after.push(current);
+        }
+
+        const buildingsBefore: BuildingStates = new Map();
+        const buildingsAfter: BuildingStates = new Map();
+
+        for (const [id, original] of recorded.buildings) {
+            const current = world.getBuilding(id) ?? null;
+            if (original === null && current === null) continue;
+
+            buildingsBefore.set(id, original);
+            buildingsAfter.set(id, current ? { ...current } : null);
+        }
+
+        return before.length > 0 || buildingsBefore.size > 0
+            ? new TileChangeCommand(before, after, buildingsBefore, buildingsAfter)
+            : null;
+    }
+
+    public undo(world: WorldData): GridPosition[] {
+        this.writeBuildings(world, this.buildingsBefore);
+        return this.writeTiles(world, this.before);
+    }
+
+    public redo(world: WorldData): GridPosition[] {
+        this.writeBuildings(world, this.buildingsAfter);
+        return this.writeTiles(world, this.after);
+    }
+
+    private writeTiles(world: WorldData, tiles: Tile[]): GridPosition[] {
+        for (const tile of tiles) {
+            world.setTile(tile.x, tile.y, { ...tile });
+        }
+        return tiles.map(tile => ({ x: tile.x, y: tile.y }));
+    }
+
+    private writeBuildings(world: WorldData, buildings: BuildingStates): void {
+        for (const [id, building] of buildings) {
+            world.setBuildingRecord(id, building);
+        }
+    }
+}
+
+/**
+ * Undo and redo stacks of world commands
+ */
+export class CommandHistory {
+    private undoStack: WorldCommand[] = [];
+    private redoStack: WorldCommand[] = [];
+
+    /**
+     * Record a command that has just been applied.
+     * Anything that was undone can no longer be redone.
+     */
+    public push(command: WorldCommand): void {
+        this.undoStack.push(command);
+        if (this.undoStack.length > HISTORY_LIMIT) {
+            this.undoStack.shift();
+        }
+        this.redoStack = [];
+    }
+
+    /**
+     * Undo the most recent command
+     * @returns the tiles whose data changed
+     */
+    public undo(world: WorldData): GridPosition[] {
+        const command = this.undoStack.pop();
+        if (!command) return [];
+
+        this.redoStack.push(command);
+        return command.undo(world);
+    }
+
+    /**
+     * Redo the most recently undone command
+     * @returns the tiles whose data changed
+     */
+    public redo(world: WorldData): GridPosition[] {
+        const command = this.redoStack.pop();
+        if (!command) return [];
+
+        this.undoStack.push(command);
+        return command.redo(world);
+    }
+
+    public canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    public canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    /**
+     * Forget all history, e.g. when a new world is loaded
+     */
+    public clear(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+    }
+}
+
+/**
+ * Check whether two tile snapshots hold the same data
+ */
+function isSameTile(a: Tile, b: Tile): boolean {
+    return a.type === b.type
+        && a.northCornerHeight === b.northCornerHeight
+        && a.waterLevel === b.waterLevel
+        && a.roadMask === b.roadMask
+        && a.flags === b.flags
+        && a.buildingId === b.buildingId;
+}
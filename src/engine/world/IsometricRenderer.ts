@@ -1,80 +1,192 @@
-import { Container, Rectangle, Sprite, Texture, ColorMatrixFilter } from "pixi.js";
-import type { Tile } from "./WorldData";
-import { calculateDepth, Coordinate, getTileUVs, TILE_DEPTH, worldToScreen } from "./IsometricUtils";
+import { Container, Graphics, MeshSimple, Rectangle, Sprite, Texture } from "pixi.js";
+import type { SCALE_MODE } from "pixi.js";
+import { engine } from "../../app/getEngine";
+import type { Camera } from "./Camera";
+import { CHUNK_SIZE, WorldChunk } from "./WorldChunk";
+import { EDGE_OFFSETS, MAX_TERRAIN_HEIGHT, TileFlags, TileType } from "./WorldData";
+import type { Building, GridPosition, Tile, WorldData } from "./WorldData";
+import { rotateFacing } from "./BuildingRegistry";
+import type { BuildingRegistry } from "./BuildingRegistry";
+import { TileOverlay } from "./TileOverlay";
+import type { TileHover } from "./TileOverlay";
+import {
+    calculateDepth,
+    Coordinate,
+    CornerHeights,
+    getFootprintColumns,
+    getSlopeShape,
+    getTileTriangles,
+    getTileUVs,
+    rotateCorners,
+    SlopeShape,
+    TILE_DEPTH,
+    TILE_HEIGHT,
+    TILE_HEIGHT_HALF,
+    TILE_WIDTH,
+    TILE_WIDTH_HALF,
+    tileToView,
+    viewToTile,
+    worldToScreen,
+    worldToView,
+} from "./IsometricUtils";
+
+/**
+ * Extra depth of the cliff faces drawn below the ground along the map edge
+ */
+const EDGE_BASE_DEPTH = 1;
+
+/**
+ * Colors of the cliff faces along the south-west and south-east map edges
+ */
+const EDGE_FACE_COLORS = { southWest: 0x7A5C3E, southEast: 0x5C432C };
+
+/**
+ * Water surface styling: surface opacity, shoreline foam and the side faces along the map edge
+ */
+const WATER_ALPHA = 0.8;
+const SHORE_FOAM = { width: 1, color: 0xFFFFFF, alpha: 0.7 };
+const WATER_FACE_COLORS = { southWest: 0x3A6EA5, southEast: 0x2B568A };
+
+/**
+ * Road styling: the paved square in the middle of the tile (in tile-local 0..1 units)
+ * that arms extend from towards each connected edge, and the centre line
+ */
+const ROAD_INNER = 0.3;
+const ROAD_COLOR = 0x4A4A4A;
+const ROAD_LINE = { width: 1, color: 0xE8E0A0, alpha: 0.8 };
+
+/**
+ * Placement preview styling: opacity, and tints for valid and invalid spots
+ */
+const GHOST_ALPHA = 0.7;
+const GHOST_TINTS = { valid: 0x80FF80, invalid: 0xFF6060 };
+
+/**
+ * Direction of the light used to shade slopes, in world space (x, y, up)
+ */
+const LIGHT_DIRECTION = normalize([-1, -0.5, 2]);
+
+/**
+ * World-space size of one unit of corner height, used for slope shading
+ */
+const HEIGHT_SCALE = 0.5;
+
+/**
+ * A generated tile texture and the point in it that sits on the tile's ground position
+ */
+interface TileVariant {
+    texture: Texture;
+    /** Vertical anchor of the south corner at the tile's base height */
+    anchorY: number;
+}
 
 /**
  * Represents a single rendered tile sprite
  */
 export class TileSprite extends Sprite {
-    public world: Coordinate;
+    /** Position in view space, which matches the tile's world position until the view is rotated */
+    public viewPosition: Coordinate;
     public tile: Tile;
-    public northCornerHeight: number;
-    private isHovered: boolean = false;
-    private darkenFilter: ColorMatrixFilter;
+    /** Height of the tile's lowest corner */
+    public baseHeight: number;
 
-    constructor(texture: Texture, tile: Tile, northHeight: number) {
-        super(texture);
+    constructor(variant: TileVariant, tile: Tile, baseHeight: number, viewPosition: Coordinate) {
+        super(variant.texture);
         this.tile = tile;
-        this.world = { x: tile.x, y: tile.y };
-        this.northCornerHeight = northHeight;
-        
-        // Create darken filter for hover effect
-        this.darkenFilter = new ColorMatrixFilter();
-        this.darkenFilter.brightness(0.5, false); // Darken by 50%
+        this.viewPosition = viewPosition;
+        this.baseHeight = baseHeight;
 
-        this.anchor.set(0.5, 1); // Anchor at bottom center for isometric tiles
+        this.setTile(variant, tile, baseHeight, viewPosition);
+    }
+
+    /**
+     * Point the sprite at a (possibly different) tile, so sprites can be recycled
+     */
+    public setTile(variant: TileVariant, tile: Tile, baseHeight: number, viewPosition: Coordinate): void {
+        this.tile = tile;
+        this.viewPosition = viewPosition;
+        this.baseHeight = baseHeight;
+        this.texture = variant.texture;
+
+        this.anchor.set(0.5, variant.anchorY); // Anchor at the south corner for isometric tiles
         this.updatePosition();
     }
 
     /**
-     * Update the sprite's screen position based on world coordinates and height
+     * Update the sprite's screen position based on view coordinates and height
      */
     public updatePosition(): void {
-        const screenPos = worldToScreen(this.world);
+        const screenPos = worldToScreen(this.viewPosition);
 
         this.x = screenPos.x;
-        this.y = screenPos.y - (this.northCornerHeight * TILE_DEPTH);
+        this.y = screenPos.y - (this.baseHeight * TILE_DEPTH);
 
         // Set z-index for proper depth sorting
-        this.zIndex = calculateDepth(this.world, this.northCornerHeight);
-    }
-
-    /**
-     * Set hover state for the tile
-     */
-    public setHovered(hovered: boolean): void {
-        if (this.isHovered === hovered) return;
-        
-        this.isHovered = hovered;
-        
-        if (hovered) {
-            this.filters = [this.darkenFilter];
-        }
-        else {
-            this.filters = [];
-        }
+        this.zIndex = calculateDepth(this.viewPosition, this.baseHeight);
     }
+}
 
-    /**
-     * Get hover state
-     */
-    public getHovered(): boolean {
-        return this.isHovered;
-    }
+/**
+ * Sprites and container for one visible chunk of the world
+ */
+interface ChunkView {
+    container: Container;
+    /** Tile sprites indexed like the chunk's arrays */
+    sprites: (TileSprite | undefined)[];
+    /** Water surface sprites, for tiles that are under water */
+    waterSprites: (Sprite | undefined)[];
+    /** Columns of building sprites, indexed by the tile that is the front of each column */
+    buildingSlices: (Sprite[] | undefined)[];
 }
 
 /**
- * Manages rendering of the isometric world
+ * Manages rendering of the isometric world.
+ * Only chunks overlapping the viewport have sprites; each chunk's sprites live
+ * in their own sorted container, and chunk containers are ordered back to front.
+ *
+ * Within a screen column, tiles further along the diagonal are always in front, and
+ * chunk order keeps that true across chunks. Sprites covering several tiles are cut
+ * into half-tile columns so each column sorts by its own front tile (see getFootprintColumns).
  */
 export class IsometricRenderer extends Container {
+    private worldData: WorldData;
+    private buildings: BuildingRegistry;
     private tileTextures: Texture[] = [];
-    private tileSprites: Map<string, TileSprite> = new Map();
+    private tileVariants: Map<string, TileVariant> = new Map();
+    /** Building textures cut into columns, keyed by texture uid and column count */
+    private sliceTextures: Map<string, Texture[]> = new Map();
+    private chunkViews: Map<number, ChunkView> = new Map();
+    private spritePool: TileSprite[] = [];
+    private waterPool: Sprite[] = [];
+    private buildingPool: Sprite[] = [];
+    private containerPool: Container[] = [];
     private baseTexture: Texture | null = null;
-    private hoveredTile: TileSprite | null = null;
+    /** Texture filtering: nearest keeps pixels crisp at whole zoom levels, linear smooths the ones between */
+    private scaleMode: SCALE_MODE = 'nearest';
+    /** Hover and footprint outlines, drawn over everything but the ghost */
+    private overlay: TileOverlay;
+    /** Tiles tinted to preview an action, keyed by y * width + x */
+    private highlightedKeys: Set<number> = new Set();
+    private highlightColor = 0xFFFFFF;
+    /** Preview of a building about to be placed */
+    private ghost: Sprite | null = null;
+    /** Building and validity the ghost was last shown for, to redraw it after the view turns */
+    private ghostState: { building: Omit<Building, "id">; valid: boolean } | null = null;
+    /** Number of 90° clockwise turns of the view */
+    private viewRotation = 0;
+
+    /** Visible area in renderer-local (unscaled screen) coordinates */
+    private viewBounds = new Rectangle();
 
-    constructor() {
+    constructor(worldData: WorldData, buildings: BuildingRegistry) {
         super();
+        this.worldData = worldData;
+        this.buildings = buildings;
         this.sortableChildren = true; // Enable z-index sorting
+
+        this.overlay = new TileOverlay(worldData);
+        this.overlay.zIndex = Number.MAX_SAFE_INTEGER - 1;
+        this.addChild(this.overlay);
     }
 
     /**
@@ -110,82 +222,729 @@ export class IsometricRenderer extends Container {
     }
 
     /**
-     * Render a single tile
+     * Update which chunks are rendered for the given camera and viewport size
      */
-    public renderTile(tile: Tile, northCornerHeight: number): void {
-        const key = `${tile.x},${tile.y}`;
-        
-        // Remove existing sprite if it exists
-        this.removeTile(tile.x, tile.y);
-        
-        // Create new sprite
+    public updateViewport(camera: Camera, viewWidth: number, viewHeight: number): void {
+        if (camera.getRotation() !== this.viewRotation) {
+            this.setViewRotation(camera.getRotation());
+        }
+
+        const center = worldToScreen(worldToView(camera.target, this.viewRotation));
+        const halfWidth = viewWidth / 2 / camera.zoom;
+        const halfHeight = viewHeight / 2 / camera.zoom;
+
+        this.viewBounds.x = center.x - halfWidth;
+        this.viewBounds.y = center.y - halfHeight;
+        this.viewBounds.width = halfWidth * 2;
+        this.viewBounds.height = halfHeight * 2;
+
+        for (let chunkY = 0; chunkY < this.worldData.chunksY; chunkY++) {
+            for (let chunkX = 0; chunkX < this.worldData.chunksX; chunkX++) {
+                const key = chunkY * this.worldData.chunksX + chunkX;
+                const visible = this.isChunkVisible(chunkX, chunkY);
+                const view = this.chunkViews.get(key);
+
+                if (visible && !view) {
+                    this.showChunk(chunkX, chunkY);
+                }
+                else if (!visible && view) {
+                    this.hideChunk(key, view);
+                }
+            }
+        }
+
+        // Redraw outlines after any chunks were rebuilt under them
+        this.overlay.update();
+    }
+
+    /**
+     * Turn the view, rebuilding every visible chunk.
+     * Tile variants are cached by their appearance on screen, so they stay valid.
+     */
+    private setViewRotation(rotation: number): void {
+        this.viewRotation = rotation;
+        this.overlay.setViewRotation(rotation);
+        this.clear();
+        if (this.ghostState) {
+            this.setBuildingGhost(this.ghostState.building, this.ghostState.valid);
+        }
+    }
+
+    /**
+     * Check whether a chunk's screen footprint overlaps the viewport,
+     * allowing for terrain raised up to the maximum height
+     */
+    private isChunkVisible(chunkX: number, chunkY: number): boolean {
+        // Opposite corner tiles of the chunk, in view space
+        const first = this.toView({ x: chunkX * CHUNK_SIZE, y: chunkY * CHUNK_SIZE });
+        const last = this.toView({
+            x: Math.min((chunkX + 1) * CHUNK_SIZE, this.worldData.width) - 1,
+            y: Math.min((chunkY + 1) * CHUNK_SIZE, this.worldData.height) - 1,
+        });
+
+        // Tile (x, y) covers [x - 1, x] x [y - 1, y]
+        const minX = Math.min(first.x, last.x) - 1;
+        const minY = Math.min(first.y, last.y) - 1;
+        const maxX = Math.max(first.x, last.x);
+        const maxY = Math.max(first.y, last.y);
+
+        const left = (minX - maxY) * TILE_WIDTH_HALF;
+        const right = (maxX - minY) * TILE_WIDTH_HALF;
+        const top = (minX + minY) * TILE_HEIGHT_HALF - MAX_TERRAIN_HEIGHT * TILE_DEPTH;
+        const bottom = (maxX + maxY) * TILE_HEIGHT_HALF + (MAX_TERRAIN_HEIGHT + EDGE_BASE_DEPTH) * TILE_DEPTH;
+
+        const view = this.viewBounds;
+        return right >= view.x && left <= view.x + view.width && bottom >= view.y && top <= view.y + view.height;
+    }
+
+    /**
+     * Build sprites for every tile in a chunk that just came into view
+     */
+    private showChunk(chunkX: number, chunkY: number): void {
+        const container = this.containerPool.pop() ?? new Container();
+        container.sortableChildren = true;
+        // Chunks further along both view axes are always in front, so order chunks by view diagonal
+        const viewChunk = this.toView({ x: chunkX, y: chunkY });
+        container.zIndex = viewChunk.x + viewChunk.y;
+
+        const view: ChunkView = { container, sprites: [], waterSprites: [], buildingSlices: [] };
+        this.chunkViews.set(chunkY * this.worldData.chunksX + chunkX, view);
+        this.addChild(container);
+
+        const maxX = Math.min((chunkX + 1) * CHUNK_SIZE, this.worldData.width);
+        const maxY = Math.min((chunkY + 1) * CHUNK_SIZE, this.worldData.height);
+
+        for (let y = chunkY * CHUNK_SIZE; y < maxY; y++) {
+            for (let x = chunkX * CHUNK_SIZE; x < maxX; x++) {
+                const tile = this.worldData.getTile(x, y);
+                if (tile) {
+                    this.renderTile(tile);
+                }
+            }
+        }
+    }
+
+    /**
+     * Return a chunk's sprites to the pool once it leaves the view
+     */
+    private hideChunk(key: number, view: ChunkView): void {
+        for (const sprite of view.sprites) {
+            if (sprite) {
+                this.releaseSprite(sprite);
+            }
+        }
+        for (const sprite of view.waterSprites) {
+            if (sprite) {
+                view.container.removeChild(sprite);
+                this.waterPool.push(sprite);
+            }
+        }
+        for (const slices of view.buildingSlices) {
+            this.releaseBuildingSlices(view, slices ?? []);
+        }
+
+        this.removeChild(view.container);
+        this.containerPool.push(view.container);
+        this.chunkViews.delete(key);
+    }
+
+    /**
+     * Detach a sprite from its chunk and keep it for reuse
+     */
+    private releaseSprite(sprite: TileSprite): void {
+        sprite.tint = 0xFFFFFF;
+        sprite.parent?.removeChild(sprite);
+        this.spritePool.push(sprite);
+    }
+
+    /**
+     * Get the view of the chunk containing a tile, if that chunk is visible
+     */
+    private getChunkView(x: number, y: number): ChunkView | undefined {
+        return this.chunkViews.get(Math.floor(y / CHUNK_SIZE) * this.worldData.chunksX + Math.floor(x / CHUNK_SIZE));
+    }
+
+    /**
+     * Render a single tile, shaped by its four corner heights.
+     * Tiles in chunks outside the view are skipped; they are built when the chunk is shown.
+     */
+    public renderTile(tile: Tile): void {
+        const view = this.getChunkView(tile.x, tile.y);
+        if (!view) return;
+
+        const index = WorldChunk.indexOf(tile.x % CHUNK_SIZE, tile.y % CHUNK_SIZE);
         const texture = this.tileTextures[tile.type];
-        if (!texture) return;
-        
-        const sprite = new TileSprite(texture, tile, northCornerHeight);
-        this.tileSprites.set(key, sprite);
-        this.addChild(sprite);
+        if (!texture) {
+            this.removeTile(tile.x, tile.y);
+            return;
+        }
+
+        const shape = getSlopeShape(this.getViewCornerHeights(tile.x, tile.y));
+        const variant = this.getTileVariant(tile, shape);
+        const viewPosition = this.toView(tile);
+
+        let sprite = view.sprites[index];
+        if (sprite) {
+            sprite.setTile(variant, tile, shape.baseHeight, viewPosition);
+        }
+        else {
+            sprite = this.spritePool.pop();
+            if (sprite) {
+                sprite.setTile(variant, tile, shape.baseHeight, viewPosition);
+            }
+            else {
+                sprite = new TileSprite(variant, tile, shape.baseHeight, viewPosition);
+            }
+            view.sprites[index] = sprite;
+            view.container.addChild(sprite);
+        }
+
+        sprite.tint = this.highlightedKeys.has(tile.y * this.worldData.width + tile.x) ? this.highlightColor : 0xFFFFFF;
+
+        this.renderWater(view, index, tile);
+        this.renderBuilding(view, index, tile);
+
+        // Outlines follow the surface, which may have just changed
+        this.overlay.invalidate();
+    }
+
+    /**
+     * Show, update or remove the columns of a building sprite that a tile is the front of.
+     * Each column is drawn at the depth of its own front tile, so anything in front of
+     * part of a building is drawn over just that part.
+     */
+    private renderBuilding(view: ChunkView, index: number, tile: Tile): void {
+        const building = this.worldData.getBuilding(tile.buildingId);
+        const viewBuilding = building ? this.toViewBuilding(building) : undefined;
+        const texture = viewBuilding ? this.buildings.get(viewBuilding.type)?.textures[viewBuilding.facing] : undefined;
+        const viewTile = this.toView(tile);
+        const owned: number[] = [];
+
+        if (viewBuilding && texture) {
+            getFootprintColumns(viewBuilding.x, viewBuilding.y, viewBuilding.width, viewBuilding.height).forEach((front, column) => {
+                if (front.x === viewTile.x && front.y === viewTile.y) {
+                    owned.push(column);
+                }
+            });
+        }
+
+        const slices = view.buildingSlices[index] ?? [];
+        this.releaseBuildingSlices(view, slices.splice(owned.length));
+        if (!building || !viewBuilding || !texture || owned.length === 0) {
+            view.buildingSlices[index] = undefined;
+            return;
+        }
+
+        const textures = this.getSliceTextures(texture, viewBuilding.width + viewBuilding.height);
+        const baseHeight = this.worldData.getVertexHeight(building.x, building.y);
+        owned.forEach((column, i) => {
+            let sprite = slices[i];
+            if (!sprite) {
+                sprite = this.buildingPool.pop() ?? new Sprite();
+                slices[i] = sprite;
+                view.container.addChild(sprite);
+            }
+
+            sprite.texture = textures[column];
+            this.positionBuildingSprite(sprite, viewBuilding, baseHeight, texture.width, textures[column].frame.x - texture.frame.x);
+            // Draw after the terrain and water on the same diagonal as the column's front tile
+            sprite.zIndex = calculateDepth(viewTile, MAX_TERRAIN_HEIGHT + 2);
+        });
+        view.buildingSlices[index] = slices;
+    }
+
+    /**
+     * Return building columns to the pool
+     */
+    private releaseBuildingSlices(view: ChunkView, slices: Sprite[]): void {
+        for (const sprite of slices) {
+            view.container.removeChild(sprite);
+            this.buildingPool.push(sprite);
+        }
+    }
+
+    /**
+     * Cut a building texture into equal columns, one per half tile of footprint width,
+     * caching the result
+     */
+    private getSliceTextures(texture: Texture, columns: number): Texture[] {
+        const key = `${texture.uid}:${columns}`;
+        let slices = this.sliceTextures.get(key);
+
+        if (!slices) {
+            slices = [];
+            for (let column = 0; column < columns; column++) {
+                // Whole pixels, so neighbouring columns meet without gaps or overlap
+                const left = Math.round(column * texture.frame.width / columns);
+                const right = Math.round((column + 1) * texture.frame.width / columns);
+                slices.push(new Texture({
+                    source: texture.source,
+                    frame: new Rectangle(texture.frame.x + left, texture.frame.y, right - left, texture.frame.height),
+                }));
+            }
+            this.sliceTextures.set(key, slices);
+        }
+
+        return slices;
+    }
+
+    /**
+     * Stand a building sprite, or a column cut from it, on the building's footprint,
+     * scaled so the whole building is as wide as the footprint
+     * @param building - the building in view space
+     * @param fullWidth - width of the whole building texture
+     * @param offsetX - distance of the sprite's left edge from the whole texture's left edge, in texture pixels
+     */
+    private positionBuildingSprite(sprite: Sprite, building: Omit<Building, "id">, baseHeight: number, fullWidth: number, offsetX = 0): void {
+        const south = { x: building.x + building.width - 1, y: building.y + building.height - 1 };
+        // West corner of the footprint; tile (x, y) covers [x - 1, x] x [y - 1, y]
+        const west = worldToScreen({ x: building.x - 1, y: south.y });
+        const scale = (building.width + building.height) * TILE_WIDTH_HALF / Math.max(1, fullWidth);
+
+        sprite.anchor.set(0, 1);
+        sprite.scale.set(scale);
+        sprite.x = west.x + offsetX * scale;
+        sprite.y = worldToScreen(south).y - baseHeight * TILE_DEPTH;
+    }
+
+    /**
+     * Show a translucent preview of a building, tinted by whether it can be placed.
+     * Pass null to hide it.
+     */
+    public setBuildingGhost(building: Omit<Building, "id"> | null, valid: boolean): void {
+        this.ghostState = building ? { building, valid } : null;
+
+        const viewBuilding = building ? this.toViewBuilding(building) : undefined;
+        const texture = viewBuilding ? this.buildings.get(viewBuilding.type)?.textures[viewBuilding.facing] : undefined;
+        if (!building || !viewBuilding || !texture) {
+            if (this.ghost) {
+                this.ghost.visible = false;
+            }
+            return;
+        }
+
+        if (!this.ghost) {
+            this.ghost = new Sprite();
+            this.ghost.alpha = GHOST_ALPHA;
+            this.addChild(this.ghost);
+        }
+
+        this.ghost.texture = texture;
+        this.ghost.visible = true;
+        this.ghost.tint = valid ? GHOST_TINTS.valid : GHOST_TINTS.invalid;
+        this.positionBuildingSprite(this.ghost, viewBuilding, this.worldData.getVertexHeight(building.x, building.y), texture.width);
+        // Above every chunk container
+        this.ghost.zIndex = Number.MAX_SAFE_INTEGER;
+    }
+
+    /**
+     * Show, update or remove the water surface over a tile
+     */
+    private renderWater(view: ChunkView, index: number, tile: Tile): void {
+        let sprite = view.waterSprites[index];
+
+        if (tile.waterLevel === 0) {
+            if (sprite) {
+                view.container.removeChild(sprite);
+                this.waterPool.push(sprite);
+                view.waterSprites[index] = undefined;
+            }
+            return;
+        }
+
+        const variant = this.getWaterVariant(tile);
+
+        if (!sprite) {
+            sprite = this.waterPool.pop() ?? new Sprite();
+            view.waterSprites[index] = sprite;
+            view.container.addChild(sprite);
+        }
+
+        const viewPosition = this.toView(tile);
+        const screenPos = worldToScreen(viewPosition);
+        sprite.texture = variant.texture;
+        sprite.anchor.set(0.5, variant.anchorY);
+        sprite.alpha = WATER_ALPHA;
+        sprite.x = screenPos.x;
+        sprite.y = screenPos.y - tile.waterLevel * TILE_DEPTH;
+        // Draw after all terrain on the same diagonal
+        sprite.zIndex = calculateDepth(viewPosition, MAX_TERRAIN_HEIGHT + 1);
+    }
+
+    /**
+     * Get the water surface texture for a tile's shoreline and map edge faces,
+     * generating and caching it the first time it is needed
+     */
+    private getWaterVariant(tile: Tile): TileVariant {
+        // Foam along every edge that borders dry land inside the map, by view edge
+        let shoreMask = 0;
+        EDGE_OFFSETS.forEach((offset, edge) => {
+            const neighbour = this.getViewNeighbour(tile, offset);
+            if (this.worldData.isInBounds(neighbour.x, neighbour.y) && this.worldData.getWaterLevel(neighbour.x, neighbour.y) === 0) {
+                shoreMask |= 1 << edge;
+            }
+        });
+
+        // Depth of the water below its surface at the east, south and west corners on screen
+        const [, east, south, west] = this.getViewCornerHeights(tile.x, tile.y);
+        const depths = [east, south, west].map(height => Math.max(0, tile.waterLevel - height));
+        const southWestEdge = this.isOnViewEdge(tile, EDGE_OFFSETS[2]);
+        const southEastEdge = this.isOnViewEdge(tile, EDGE_OFFSETS[1]);
+
+        const key = `water:${shoreMask}:${southWestEdge ? depths.join(",") : "-"}:${southEastEdge ? depths.join(",") : "-"}`;
+        let variant = this.tileVariants.get(key);
+
+        if (!variant) {
+            variant = this.createWaterVariant(shoreMask, southWestEdge, southEastEdge, depths);
+            this.tileVariants.set(key, variant);
+        }
+
+        return variant;
+    }
+
+    /**
+     * Draw a flat water surface with foam along shore edges, plus the
+     * sides of the water body where it meets the south-west or south-east map edge
+     * @param depths - water depth at the [east, south, west] corners
+     */
+    private createWaterVariant(shoreMask: number, southWestEdge: boolean, southEastEdge: boolean, depths: number[]): TileVariant {
+        const [eastDepth, southDepth, westDepth] = depths.map(depth => depth * TILE_DEPTH);
+        const points = [
+            { x: TILE_WIDTH_HALF, y: 0 },
+            { x: TILE_WIDTH, y: TILE_HEIGHT_HALF },
+            { x: TILE_WIDTH_HALF, y: TILE_HEIGHT },
+            { x: 0, y: TILE_HEIGHT_HALF },
+        ];
+
+        let height = TILE_HEIGHT;
+        const container = new Container();
+        const faces = new Graphics();
+
+        if (southWestEdge) {
+            faces
+                .poly([points[3].x, points[3].y, points[2].x, points[2].y, points[2].x, points[2].y + southDepth, points[3].x, points[3].y + westDepth])
+                .fill(WATER_FACE_COLORS.southWest);
+            height = Math.max(height, points[2].y + southDepth, points[3].y + westDepth);
+        }
+        if (southEastEdge) {
+            faces
+                .poly([points[2].x, points[2].y, points[1].x, points[1].y, points[1].x, points[1].y + eastDepth, points[2].x, points[2].y + southDepth])
+                .fill(WATER_FACE_COLORS.southEast);
+            height = Math.max(height, points[2].y + southDepth, points[1].y + eastDepth);
+        }
+        container.addChild(faces);
+
+        container.addChild(new Sprite(this.tileTextures[TileType.Water]));
+
+        const foam = new Graphics();
+        for (let edge = 0; edge < 4; edge++) {
+            if (shoreMask & (1 << edge)) {
+                const from = points[edge];
+                const to = points[(edge + 1) % 4];
+                foam.moveTo(from.x, from.y).lineTo(to.x, to.y).stroke(SHORE_FOAM);
+            }
+        }
+        container.addChild(foam);
+
+        return { texture: this.bakeTexture(container, height), anchorY: TILE_HEIGHT / height };
+    }
+
+    /**
+     * Get the texture for a tile's type, slope and map edge faces,
+     * generating and caching it the first time it is needed
+     */
+    private getTileVariant(tile: Tile, shape: SlopeShape): TileVariant {
+        // Only tiles on the visible south-west and south-east map edges get cliff faces
+        const southWestEdge = this.isOnViewEdge(tile, EDGE_OFFSETS[2]);
+        const southEastEdge = this.isOnViewEdge(tile, EDGE_OFFSETS[1]);
+        const faceDepth = southWestEdge || southEastEdge ? shape.baseHeight + EDGE_BASE_DEPTH : 0;
+
+        // Roads with no connections yet still draw their centre square
+        const roadMask = tile.flags & TileFlags.Road ? this.toViewRoadMask(tile.roadMask) : -1;
+
+        const key = `${tile.type}:${shape.corners.join("")}:${southWestEdge ? 1 : 0}${southEastEdge ? 1 : 0}:${faceDepth}:${roadMask}`;
+        let variant = this.tileVariants.get(key);
+
+        if (!variant) {
+            variant = this.createTileVariant(this.tileTextures[tile.type], shape.corners, southWestEdge, southEastEdge, faceDepth, roadMask);
+            this.tileVariants.set(key, variant);
+        }
+
+        return variant;
+    }
+
+    /**
+     * Draw a sloped tile by warping the flat tile texture across its corners,
+     * shading each half by its facing and adding cliff faces on map edges
+     * @param corners - corner heights relative to the lowest corner
+     * @param faceDepth - how far the cliff faces extend below the lowest corner
+     * @param roadMask - RoadDirection bits of the road on the tile, or -1 for no road
+     */
+    private createTileVariant(
+        texture: Texture,
+        corners: CornerHeights,
+        southWestEdge: boolean,
+        southEastEdge: boolean,
+        faceDepth: number,
+        roadMask: number,
+    ): TileVariant {
+        const top = Math.max(...corners) * TILE_DEPTH;
+        const groundY = top + TILE_HEIGHT;
+        const height = groundY + faceDepth * TILE_DEPTH;
+
+        const [n, e, s, w] = corners;
+        const points = [
+            { x: TILE_WIDTH_HALF, y: top - n * TILE_DEPTH, h: n, wx: 0, wy: 0 },
+            { x: TILE_WIDTH, y: top + TILE_HEIGHT_HALF - e * TILE_DEPTH, h: e, wx: 1, wy: 0 },
+            { x: TILE_WIDTH_HALF, y: top + TILE_HEIGHT - s * TILE_DEPTH, h: s, wx: 1, wy: 1 },
+            { x: 0, y: top + TILE_HEIGHT_HALF - w * TILE_DEPTH, h: w, wx: 0, wy: 1 },
+        ];
+        const uvs = [0.5, 0, 1, 0.5, 0.5, 1, 0, 0.5];
+
+        const triangles = getTileTriangles(corners);
+
+        const container = new Container();
+
+        if (faceDepth > 0) {
+            const faces = new Graphics();
+            const bottom = groundY + faceDepth * TILE_DEPTH;
+            if (southWestEdge) {
+                faces
+                    .poly([points[3].x, points[3].y, points[2].x, points[2].y, points[2].x, bottom, points[3].x, bottom - TILE_HEIGHT_HALF])
+                    .fill(EDGE_FACE_COLORS.southWest);
+            }
+            if (southEastEdge) {
+                faces
+                    .poly([points[2].x, points[2].y, points[1].x, points[1].y, points[1].x, bottom - TILE_HEIGHT_HALF, points[2].x, bottom])
+                    .fill(EDGE_FACE_COLORS.southEast);
+            }
+            container.addChild(faces);
+        }
+
+        for (const triangle of triangles) {
+            const vertices = new Float32Array(triangle.flatMap(i => [points[i].x, points[i].y]));
+            const triangleUVs = new Float32Array(triangle.flatMap(i => [uvs[i * 2], uvs[i * 2 + 1]]));
+
+            const mesh = new MeshSimple({
+                texture,
+                vertices,
+                uvs: triangleUVs,
+                indices: new Uint32Array([0, 1, 2]),
+            });
+
+            const shade = Math.round(255 * getShading(triangle.map(i => [points[i].wx, points[i].wy, points[i].h * HEIGHT_SCALE])));
+            mesh.tint = (shade << 16) | (shade << 8) | shade;
+            container.addChild(mesh);
+        }
+
+        if (roadMask >= 0) {
+            container.addChild(createRoad(corners, top, roadMask));
+        }
+
+        return { texture: this.bakeTexture(container, height), anchorY: groundY / height };
+    }
+
+    /**
+     * Convert tile coordinates to the rotated view's grid
+     */
+    private toView(tile: GridPosition): Coordinate {
+        return tileToView(tile, this.viewRotation);
+    }
+
+    /**
+     * Get the world tile next to a tile across one of its edges on screen
+     * @param viewOffset - direction of the edge in view space, one of EDGE_OFFSETS
+     */
+    private getViewNeighbour(tile: GridPosition, viewOffset: GridPosition): GridPosition {
+        const offset = viewToTile(viewOffset, this.viewRotation);
+        return { x: tile.x + offset.x, y: tile.y + offset.y };
+    }
+
+    /**
+     * Check whether a tile's edge on screen lies along the map edge
+     */
+    private isOnViewEdge(tile: GridPosition, viewOffset: GridPosition): boolean {
+        const neighbour = this.getViewNeighbour(tile, viewOffset);
+        return !this.worldData.isInBounds(neighbour.x, neighbour.y);
+    }
+
+    /**
+     * Get a tile's corner heights in screen order [north, east, south, west]
+     */
+    private getViewCornerHeights(x: number, y: number): CornerHeights {
+        return rotateCorners(this.worldData.getTileCornerHeights(x, y), this.viewRotation);
+    }
+
+    /**
+     * Turn a RoadDirection bitmask from world edges to screen edges
+     */
+    private toViewRoadMask(mask: number): number {
+        return ((mask << this.viewRotation) | (mask >> (4 - this.viewRotation))) & 0xF;
+    }
+
+    /**
+     * Get a building's footprint and facing as seen in the rotated view
+     */
+    private toViewBuilding(building: Omit<Building, "id">): Omit<Building, "id"> {
+        const first = this.toView(building);
+        const last = this.toView({ x: building.x + building.width - 1, y: building.y + building.height - 1 });
+
+        return {
+            type: building.type,
+            x: Math.min(first.x, last.x),
+            y: Math.min(first.y, last.y),
+            width: Math.abs(last.x - first.x) + 1,
+            height: Math.abs(last.y - first.y) + 1,
+            facing: rotateFacing(building.facing, this.viewRotation),
+        };
+    }
+
+    /**
+     * Render a tile's display objects into a crisp texture one tile wide, then destroy them
+     */
+    private bakeTexture(container: Container, height: number): Texture {
+        const texture = engine().renderer.generateTexture({
+            target: container,
+            frame: new Rectangle(0, 0, TILE_WIDTH, height),
+            resolution: 1,
+            antialias: false,
+        });
+        texture.source.scaleMode = this.scaleMode;
+
+        container.destroy({ children: true });
+
+        return texture;
     }
 
     /**
      * Remove a tile from rendering
      */
     public removeTile(x: number, y: number): void {
-        const key = `${x},${y}`;
-        const sprite = this.tileSprites.get(key);
+        const view = this.getChunkView(x, y);
+        if (!view) return;
+
+        const index = WorldChunk.indexOf(x % CHUNK_SIZE, y % CHUNK_SIZE);
+        const sprite = view.sprites[index];
         
         if (sprite) {
-            this.removeChild(sprite);
-            this.tileSprites.delete(key);
-            sprite.destroy();
+            this.releaseSprite(sprite);
+            view.sprites[index] = undefined;
         }
+
+        const waterSprite = view.waterSprites[index];
+        if (waterSprite) {
+            view.container.removeChild(waterSprite);
+            this.waterPool.push(waterSprite);
+            view.waterSprites[index] = undefined;
+        }
+
+        this.releaseBuildingSlices(view, view.buildingSlices[index] ?? []);
+        view.buildingSlices[index] = undefined;
     }
 
     /**
-     * Clear all rendered tiles
+     * Clear all rendered tiles.
+     * Visible chunks are rebuilt on the next call to updateViewport.
      */
     public clear(): void {
-        for (const sprite of this.tileSprites.values()) {
-            this.removeChild(sprite);
+        for (const [key, view] of this.chunkViews) {
+            this.hideChunk(key, view);
+        }
+    }
+
+    /**
+     * Release all pooled sprites and generated tile textures
+     */
+    public override destroy(): void {
+        this.clear();
+        for (const sprite of [...this.spritePool, ...this.waterPool, ...this.buildingPool]) {
             sprite.destroy();
         }
-        this.tileSprites.clear();
+        for (const container of this.containerPool) {
+            container.destroy();
+        }
+        this.spritePool = [];
+        this.waterPool = [];
+        this.buildingPool = [];
+        this.ghost?.destroy();
+        this.ghost = null;
+        this.overlay.destroy({ children: true });
+        this.containerPool = [];
+
+        for (const variant of this.tileVariants.values()) {
+            variant.texture.destroy(true);
+        }
+        this.tileVariants.clear();
+        for (const slices of this.sliceTextures.values()) {
+            slices.forEach(slice => slice.destroy(false));
+        }
+        this.sliceTextures.clear();
+        super.destroy();
     }
 
     /**
      * Update positions of all rendered tiles (useful when heights change)
      */
     public updateAllPositions(): void {
-        for (const sprite of this.tileSprites.values()) {
-            sprite.updatePosition();
+        for (const view of this.chunkViews.values()) {
+            for (const sprite of view.sprites) {
+                sprite?.updatePosition();
+            }
         }
     }
 
     /**
-     * Set hover state for a tile at the given world coordinates
+     * Set how tile and building textures are filtered when scaled
      */
-    public setTileHover(worldX: number, worldY: number, hovered: boolean): void {
-        const key = `${Math.floor(worldX)},${Math.floor(worldY)}`;
-        const sprite = this.tileSprites.get(key);
-        
-        if (sprite) {
-            sprite.setHovered(hovered);
-            if (hovered) {
-                this.hoveredTile = sprite;
-            }
-            else if (this.hoveredTile === sprite) {
-                this.hoveredTile = null;
+    public setScaleMode(scaleMode: SCALE_MODE): void {
+        if (this.scaleMode === scaleMode) return;
+        this.scaleMode = scaleMode;
+
+        for (const variant of this.tileVariants.values()) {
+            variant.texture.source.scaleMode = scaleMode;
+        }
+        for (const definition of this.buildings.getAll()) {
+            for (const texture of Object.values(definition.textures)) {
+                texture.source.scaleMode = scaleMode;
             }
         }
     }
 
     /**
-     * Clear all hover states
+     * Outline the hovered tile, marking a corner or edge if given. Pass null to clear it.
+     */
+    public setHover(hover: TileHover | null): void {
+        this.overlay.setHover(hover);
+    }
+
+    /**
+     * Outline a group of tiles, such as a brush or building footprint, replacing any previous one.
+     * Pass an empty list to clear it.
      */
-    public clearAllHover(): void {
-        if (this.hoveredTile) {
-            this.hoveredTile.setHovered(false);
-            this.hoveredTile = null;
+    public setFootprint(tiles: GridPosition[], color: number): void {
+        this.overlay.setFootprint(tiles, color);
+    }
+
+    /**
+     * Tint a set of tiles to preview an action on them, replacing any previous highlight.
+     * Pass an empty list to clear the highlight.
+     */
+    public setHighlightedTiles(tiles: GridPosition[], color: number): void {
+        for (const key of this.highlightedKeys) {
+            const sprite = this.getTileAt(key % this.worldData.width, Math.floor(key / this.worldData.width));
+            if (sprite) {
+                sprite.tint = 0xFFFFFF;
+            }
+        }
+
+        this.highlightedKeys = new Set(tiles.map(tile => tile.y * this.worldData.width + tile.x));
+        this.highlightColor = color;
+
+        for (const tile of tiles) {
+            const sprite = this.getTileAt(tile.x, tile.y);
+            if (sprite) {
+                sprite.tint = color;
+            }
         }
     }
 
@@ -193,7 +952,86 @@ export class IsometricRenderer extends Container {
      * Get the tile sprite at the given world coordinates
      */
     public getTileAt(worldX: number, worldY: number): TileSprite | null {
-        const key = `${Math.floor(worldX)},${Math.floor(worldY)}`;
-        return this.tileSprites.get(key) || null;
+        const x = Math.floor(worldX);
+        const y = Math.floor(worldY);
+        if (!this.worldData.isInBounds(x, y)) return null;
+
+        return this.getChunkView(x, y)?.sprites[WorldChunk.indexOf(x % CHUNK_SIZE, y % CHUNK_SIZE)] ?? null;
     }
 }
+
+/**
+ * Draw a road across a tile: a centre square with an arm out to each connected edge,
+ * and a centre line along the arms. Shapes are laid out in tile-local coordinates,
+ * where (0, 0) is the north corner and (1, 1) the south corner, then projected onto the slope.
+ * @param corners - corner heights relative to the lowest corner
+ * @param top - y of the highest corner in the tile texture
+ */
+function createRoad(corners: CornerHeights, top: number, roadMask: number): Graphics {
+    const [n, e, s, w] = corners;
+    const project = (lx: number, ly: number): number[] => {
+        const height = n * (1 - lx) * (1 - ly) + e * lx * (1 - ly) + s * lx * ly + w * (1 - lx) * ly;
+        return [
+            TILE_WIDTH_HALF + (lx - ly) * TILE_WIDTH_HALF,
+            top + (lx + ly) * TILE_HEIGHT_HALF - height * TILE_DEPTH,
+        ];
+    };
+    const quad = (x0: number, y0: number, x1: number, y1: number): number[] =>
+        [...project(x0, y0), ...project(x1, y0), ...project(x1, y1), ...project(x0, y1)];
+
+    const inner = ROAD_INNER;
+    const outer = 1 - ROAD_INNER;
+    // Arm rectangles, indexed by edge like RoadDirection bits
+    const arms = [
+        [inner, 0, outer, inner],
+        [outer, inner, 1, outer],
+        [inner, outer, outer, 1],
+        [0, inner, inner, outer],
+    ];
+    // Where each edge's centre line meets the tile edge
+    const edgeMidpoints = [[0.5, 0], [1, 0.5], [0.5, 1], [0, 0.5]];
+
+    const road = new Graphics();
+    road.poly(quad(inner, inner, outer, outer)).fill(ROAD_COLOR);
+    arms.forEach(([x0, y0, x1, y1], edge) => {
+        if (roadMask & (1 << edge)) {
+            road.poly(quad(x0, y0, x1, y1)).fill(ROAD_COLOR);
+        }
+    });
+
+    edgeMidpoints.forEach(([lx, ly], edge) => {
+        if (roadMask & (1 << edge)) {
+            const [fromX, fromY] = project(0.5, 0.5);
+            const [toX, toY] = project(lx, ly);
+            road.moveTo(fromX, fromY).lineTo(toX, toY).stroke(ROAD_LINE);
+        }
+    });
+
+    return road;
+}
+
+/**
+ * Brightness of a triangle lit by LIGHT_DIRECTION, where a flat surface is 1
+ * @param points - triangle corners in world space as [x, y, up]
+ */
+function getShading(points: number[][]): number {
+    const [a, b, c] = points;
+    const u = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+    const v = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+    const normal = normalize([
+        u[1] * v[2] - u[2] * v[1],
+        u[2] * v[0] - u[0] * v[2],
+        u[0] * v[1] - u[1] * v[0],
+    ]);
+
+    const lit = normal[0] * LIGHT_DIRECTION[0] + normal[1] * LIGHT_DIRECTION[1] + normal[2] * LIGHT_DIRECTION[2];
+    return Math.max(0.55, Math.min(1, lit / LIGHT_DIRECTION[2]));
+}
+
+/**
+ * Scale a vector to unit length
+ */
+function normalize(vector: number[]): number[] {
+    const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return vector.map(value => value / length);
+}
@@ -15,6 +15,124 @@ export const TILE_WIDTH_HALF = TILE_WIDTH / 2;
 export const TILE_HEIGHT_HALF = TILE_HEIGHT / 2;
 export const TILE_DEPTH = TILE_HEIGHT_HALF;
 
+/**
+ * Heights of a tile's four corners, ordered [north, east, south, west]
+ */
+export type CornerHeights = [number, number, number, number];
+
+/**
+ * The 19 corner height combinations a tile can take when neighbouring
+ * corners differ by at most one unit, as NESW heights relative to the lowest corner
+ */
+export const SLOPE_SHAPES: readonly string[] = [
+    // Flat
+    "0000",
+    // Single corner up
+    "1000", "0100", "0010", "0001",
+    // Single corner down
+    "0111", "1011", "1101", "1110",
+    // Ramps
+    "1100", "0110", "0011", "1001",
+    // Saddles
+    "1010", "0101",
+    // Steep
+    "2101", "1210", "0121", "1012",
+];
+
+/**
+ * Slope shape of a tile, split into its base height and relative corner heights
+ */
+export interface SlopeShape {
+    /** Height of the lowest corner */
+    baseHeight: number;
+    /** Corner heights relative to the base height */
+    corners: CornerHeights;
+    /** Index into SLOPE_SHAPES, or -1 if the corners break the one-step rule */
+    index: number;
+}
+
+/**
+ * Classify a tile's corner heights into one of the slope shapes
+ */
+export function getSlopeShape(corners: CornerHeights): SlopeShape {
+    const baseHeight = Math.min(...corners);
+    const relative = corners.map(height => height - baseHeight) as CornerHeights;
+
+    return {
+        baseHeight,
+        corners: relative,
+        index: SLOPE_SHAPES.indexOf(relative.join("")),
+    };
+}
+
+/**
+ * Number of 90° clockwise turns the view is rotated by, 0 to 3
+ */
+export type ViewRotation = 0 | 1 | 2 | 3;
+
+/**
+ * Turn a vector clockwise on screen by 90° steps; negative steps turn anticlockwise
+ */
+export function rotateVector(vector: Coordinate, steps: number): Coordinate {
+    let { x, y } = vector;
+    for (let i = 0; i < ((steps % 4) + 4) % 4; i++) {
+        [x, y] = [-y, x];
+    }
+    return { x, y };
+}
+
+/**
+ * Convert tile coordinates to view space, the grid as seen with the view rotated.
+ * The view turns about the centre of tile (0, 0), so whole tiles land on whole tiles.
+ */
+export function tileToView(tile: Coordinate, rotation: number): Coordinate {
+    return rotateVector(tile, rotation);
+}
+
+/**
+ * Convert view space tile coordinates back to world tile coordinates
+ */
+export function viewToTile(tile: Coordinate, rotation: number): Coordinate {
+    return rotateVector(tile, -rotation);
+}
+
+/**
+ * Convert a world position to view space. Tile (x, y) covers world [x - 1, x] x [y - 1, y],
+ * and lands on the view tile given by tileToView.
+ */
+export function worldToView(world: Coordinate, rotation: number): Coordinate {
+    const turned = rotateVector({ x: world.x + 0.5, y: world.y + 0.5 }, rotation);
+    return { x: turned.x - 0.5, y: turned.y - 0.5 };
+}
+
+/**
+ * Convert a view space position back to a world position
+ */
+export function viewToWorld(view: Coordinate, rotation: number): Coordinate {
+    const turned = rotateVector({ x: view.x + 0.5, y: view.y + 0.5 }, -rotation);
+    return { x: turned.x - 0.5, y: turned.y - 0.5 };
+}
+
+/**
+ * Split a tile into the two triangles it is drawn as, by corner index [north, east, south, west].
+ * The fold runs along the east-west diagonal only when that keeps the fold level.
+ */
+export function getTileTriangles(corners: CornerHeights): [number, number, number][] {
+    const [n, e, s, w] = corners;
+    return e === w && n !== s
+        ? [[0, 1, 3], [1, 2, 3]]
+        : [[0, 1, 2], [0, 2, 3]];
+}
+
+/**
+ * Reorder a tile's world corner heights into screen order [north, east, south, west] for a view rotation.
+ * Each turn moves every corner one place clockwise on screen.
+ */
+export function rotateCorners(corners: CornerHeights, rotation: number): CornerHeights {
+    const steps = ((rotation % 4) + 4) % 4;
+    return corners.map((_, corner) => corners[(corner - steps + 4) % 4]) as CornerHeights;
+}
+
 /**
  * Convert world coordinates to screen coordinates
  */
@@ -45,6 +163,36 @@ export function calculateDepth(world: Coordinate, height: number = 0): number {
     return (world.x + world.y) * 1000 + height;
 }
 
+/**
+ * Split the screen area of a rectangular footprint into half-tile-wide columns, west to east,
+ * and find the front-most footprint tile in each column.
+ *
+ * A single depth cannot sort a sprite spanning several tiles: neighbours in front of one part
+ * of it are behind another. Drawing each column at the depth of its own front tile instead
+ * sorts every column like a single-tile sprite standing on that tile.
+ * @param x - west-most tile x of the footprint
+ * @param y - north-most tile y of the footprint
+ * @returns the front tile of each of the (width + height) columns
+ */
+export function getFootprintColumns(x: number, y: number, width: number, height: number): Coordinate[] {
+    const columns: Coordinate[] = [];
+
+    for (let ty = y; ty < y + height; ty++) {
+        for (let tx = x; tx < x + width; tx++) {
+            // A tile's diamond spans two columns, starting from its west corner
+            const first = tx - ty - x + (y + height - 1);
+            for (const column of [first, first + 1]) {
+                const front = columns[column];
+                if (!front || tx + ty > front.x + front.y) {
+                    columns[column] = { x: tx, y: ty };
+                }
+            }
+        }
+    }
+
+    return columns;
+}
+
 /**
  * Get the texture coordinates for a specific tile type in the sprite sheet
  */
@@ -0,0 +1,134 @@
+import { createNoise2D, fractalNoise2D } from "../utils/noise";
+import { randomSeeded } from "../utils/random";
+import type { WorldGenerator } from "./WorldGenerator";
+import { MAX_TERRAIN_HEIGHT, TileType } from "./WorldData";
+import type { WorldData } from "./WorldData";
+
+/**
+ * Options for the noise-based world generator
+ */
+export interface NoiseWorldGeneratorOptions {
+    /** Seed string; the same seed always produces the same world */
+    seed: string;
+    /** Size of the largest terrain features, in tiles */
+    featureSize?: number;
+    /** Number of noise octaves layered into the heightmap */
+    octaves?: number;
+    /** Height of the tallest peaks, in corner height units */
+    heightScale?: number;
+    /** Tiles averaging at or above this height become rock */
+    rockLevel?: number;
+}
+
+/**
+ * Generates terrain from fractal noise heightmaps, then assigns tile types
+ * from height and a second moisture noise field
+ */
+export class NoiseWorldGenerator implements WorldGenerator {
+    private options: Required<NoiseWorldGeneratorOptions>;
+
+    constructor(options: NoiseWorldGeneratorOptions) {
+        this.options = {
+            featureSize: 48,
+            octaves: 5,
+            heightScale: 10,
+            rockLevel: 8,
+            ...options
+        };
+    }
+
+    /**
+     * Generate heights and tile types for every tile in the world
+     */
+    public generate(world: WorldData): void {
+        const { width, height } = world;
+        const random = randomSeeded(this.options.seed);
+
+        const heights = this.generateHeights(width, height, createNoise2D(random));
+        const moistureNoise = createNoise2D(random);
+
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                // Corners N, E, S, W; vertices past the edge mirror the last row/column
+                const east = Math.min(x + 1, width - 1);
+                const south = Math.min(y + 1, height - 1);
+                const corners = [
+                    heights[y * width + x],
+                    heights[y * width + east],
+                    heights[south * width + east],
+                    heights[south * width + x],
+                ];
+                const average = (corners[0] + corners[1] + corners[2] + corners[3]) / 4;
+
+                const moisture = fractalNoise2D(
+                    moistureNoise,
+                    x / this.options.featureSize,
+                    y / this.options.featureSize,
+                    3,
+                );
+
+                world.setTile(x, y, {
+                    type: this.getTileType(average, moisture, world.seaLevel),
+                    northCornerHeight: corners[0],
+                    waterLevel: 0,
+                    roadMask: 0,
+                    flags: 0,
+                    buildingId: 0,
+                    x,
+                    y,
+                });
+            }
+        }
+    }
+
+    /**
+     * Build a vertex heightmap from fractal noise, limited so that
+     * neighbouring vertices never differ by more than one unit
+     */
+    private generateHeights(width: number, height: number, noise: (x: number, y: number) => number): Uint8Array {
+        const { featureSize, octaves, heightScale } = this.options;
+        const heights = new Uint8Array(width * height);
+
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const value = fractalNoise2D(noise, x / featureSize, y / featureSize, octaves);
+
+                // Perlin noise rarely reaches its extremes, so stretch it before shaping
+                const stretched = Math.max(0, Math.min(1, (value - 0.5) * 2.5 + 0.5));
+                const shaped = Math.round(Math.pow(stretched, 1.5) * heightScale);
+
+                heights[y * width + x] = Math.max(0, Math.min(MAX_TERRAIN_HEIGHT, shaped));
+            }
+        }
+
+        // Two-pass distance transform lowers each vertex to at most one above
+        // any neighbour, which is the gentlest fix for the one-step rule
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const i = y * width + x;
+                if (x > 0) heights[i] = Math.min(heights[i], heights[i - 1] + 1);
+                if (y > 0) heights[i] = Math.min(heights[i], heights[i - width] + 1);
+            }
+        }
+        for (let y = height - 1; y >= 0; y--) {
+            for (let x = width - 1; x >= 0; x--) {
+                const i = y * width + x;
+                if (x < width - 1) heights[i] = Math.min(heights[i], heights[i + 1] + 1);
+                if (y < height - 1) heights[i] = Math.min(heights[i], heights[i + width] + 1);
+            }
+        }
+
+        return heights;
+    }
+
+    /**
+     * Pick a tile type from its average corner height and moisture (0 to 1).
+     * Tiles below sea level get a sandy bed; the world floods them afterwards.
+     */
+    private getTileType(averageHeight: number, moisture: number, seaLevel: number): number {
+        if (averageHeight < seaLevel) return TileType.Sand;
+        if (averageHeight >= this.options.rockLevel) return TileType.Rock;
+        if (averageHeight < seaLevel + 1 || moisture < 0.35) return TileType.Sand;
+        return TileType.Grass;
+    }
+}
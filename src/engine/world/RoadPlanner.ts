@@ -0,0 +1,226 @@
+import type { GridPosition, WorldData } from "./WorldData";
+import { EDGE_OFFSETS, getRoadPathMasks } from "./WorldData";
+
+/**
+ * Extra cost for changing direction, so routes prefer long straight runs
+ */
+const TURN_COST = 2;
+
+/**
+ * Cost of reusing a tile that already has a road
+ */
+const EXISTING_ROAD_COST = 0.5;
+
+/**
+ * How many tiles a searched route may stray outside the box spanning its ends.
+ * This keeps the search near the drag, so unreachable targets on large maps fail quickly.
+ */
+const MAX_DETOUR = 16;
+
+/**
+ * Upper bound on searched states, for long routes whose box is still large
+ */
+const MAX_SEARCH_STATES = 20000;
+
+/**
+ * Plan a road route between two tiles. An L-shaped route is preferred when it
+ * can be built; otherwise an A* search finds a route around unbuildable tiles.
+ * @returns the tiles along the route, or null if no route exists
+ */
+export function planRoadRoute(world: WorldData, from: GridPosition, to: GridPosition): GridPosition[] | null {
+    if (!world.isInBounds(from.x, from.y) || !world.isInBounds(to.x, to.y)) return null;
+
+    for (const xFirst of [true, false]) {
+        const route = getLShapedRoute(from, to, xFirst);
+        if (isRouteBuildable(world, route)) return route;
+    }
+
+    return findRoadRoute(world, from, to);
+}
+
+/**
+ * Check whether every tile along a route can hold the road it would need
+ */
+export function isRouteBuildable(world: WorldData, route: GridPosition[]): boolean {
+    const masks = getRoadPathMasks(route);
+
+    return route.every((position, i) =>
+        world.canPlaceRoad(position.x, position.y, world.getRoadMask(position.x, position.y) | masks[i]));
+}
+
+/**
+ * Build a route that runs along one axis, then turns once onto the other
+ */
+function getLShapedRoute(from: GridPosition, to: GridPosition, xFirst: boolean): GridPosition[] {
+    const route: GridPosition[] = [{ x: from.x, y: from.y }];
+    let x = from.x;
+    let y = from.y;
+
+    const stepX = () => {
+        while (x !== to.x) {
+            x += Math.sign(to.x - x);
+            route.push({ x, y });
+        }
+    };
+    const stepY = () => {
+        while (y !== to.y) {
+            y += Math.sign(to.y - y);
+            route.push({ x, y });
+        }
+    };
+
+    if (xFirst) {
+        stepX();
+        stepY();
+    }
+    else {
+        stepY();
+        stepX();
+    }
+
+    return route;
+}
+
+/**
+ * A* search over (tile, arrival direction) states, so turns can be
+ * penalised and each tile's combined connections checked for buildability.
+ * Only tiles within MAX_DETOUR of the box spanning both ends are searched.
+ */
+function findRoadRoute(world: WorldData, from: GridPosition, to: GridPosition): GridPosition[] | null {
+    const width = world.width;
+    const minX = Math.max(0, Math.min(from.x, to.x) - MAX_DETOUR);
+    const maxX = Math.min(world.width - 1, Math.max(from.x, to.x) + MAX_DETOUR);
+    const minY = Math.max(0, Math.min(from.y, to.y) - MAX_DETOUR);
+    const maxY = Math.min(world.height - 1, Math.max(from.y, to.y) + MAX_DETOUR);
+    // State 4 marks the start tile, which has no arrival direction
+    const stateOf = (x: number, y: number, direction: number) => (y * width + x) * 5 + direction;
+
+    const costs = new Map<number, number>();
+    const parents = new Map<number, number>();
+    const open = new MinHeap();
+
+    const start = stateOf(from.x, from.y, 4);
+    costs.set(start, 0);
+    open.push(start, heuristic(from, to));
+
+    let searched = 0;
+    while (open.size > 0 && searched++ < MAX_SEARCH_STATES) {
+        const state = open.pop();
+        const tileIndex = Math.floor(state / 5);
+        const arrival = state % 5;
+        const x = tileIndex % width;
+        const y = Math.floor(tileIndex / width);
+
+        if (x === to.x && y === to.y) {
+            return reconstructRoute(state, parents, width);
+        }
+
+        const cost = costs.get(state)!;
+        const existing = world.getRoadMask(x, y);
+        // The edge the road arrived through, as seen from this tile
+        const arrivalMask = arrival === 4 ? 0 : 1 << ((arrival + 2) % 4);
+
+        EDGE_OFFSETS.forEach((offset, direction) => {
+            const nx = x + offset.x;
+            const ny = y + offset.y;
+            if (nx < minX || nx > maxX || ny < minY || ny > maxY) return;
+
+            // Both ends of the step must be able to hold the connection
+            if (!world.canPlaceRoad(x, y, existing | arrivalMask | (1 << direction))) return;
+            if (!world.canPlaceRoad(nx, ny, world.getRoadMask(nx, ny) | (1 << ((direction + 2) % 4)))) return;
+
+            let stepCost = world.hasRoad(nx, ny) ? EXISTING_ROAD_COST : 1;
+            if (arrival !== 4 && arrival !== direction) {
+                stepCost += TURN_COST;
+            }
+
+            const next = stateOf(nx, ny, direction);
+            const nextCost = cost + stepCost;
+            if (nextCost >= (costs.get(next) ?? Infinity)) return;
+
+            costs.set(next, nextCost);
+            parents.set(next, state);
+            open.push(next, nextCost + heuristic({ x: nx, y: ny }, to));
+        });
+    }
+
+    return null;
+}
+
+/**
+ * Manhattan distance, the cheapest possible route between two tiles
+ */
+function heuristic(a: GridPosition, b: GridPosition): number {
+    return (Math.abs(a.x - b.x) + Math.abs(a.y - b.y)) * EXISTING_ROAD_COST;
+}
+
+/**
+ * Walk parent links back from the goal state to the start
+ */
+function reconstructRoute(state: number, parents: Map<number, number>, width: number): GridPosition[] {
+    const route: GridPosition[] = [];
+    let current: number | undefined = state;
+
+    while (current !== undefined) {
+        const tileIndex = Math.floor(current / 5);
+        route.push({ x: tileIndex % width, y: Math.floor(tileIndex / width) });
+        current = parents.get(current);
+    }
+
+    return route.reverse();
+}
+
+/**
+ * Minimal binary heap of numeric items ordered by priority
+ */
+class MinHeap {
+    private items: number[] = [];
+    private priorities: number[] = [];
+
+    public get size(): number {
+        return this.items.length;
+    }
+
+    public push(item: number, priority: number): void {
+        this.items.push(item);
+        this.priorities.push(priority);
+
+        let i = this.items.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (this.priorities[parent] <= this.priorities[i]) break;
+            this.swap(i, parent);
+            i = parent;
+        }
+    }
+
+    public pop(): number {
+        const top = this.items[0];
+        const lastItem = this.items.pop()!;
+        const lastPriority = this.priorities.pop()!;
+
+        if (this.items.length > 0) {
+            this.items[0] = lastItem;
+            this.priorities[0] = lastPriority;
+
+            let i = 0;
+            for (;;) {
+                const left = i * 2 + 1;
+                const right = left + 1;
+                let smallest = i;
+                if (left < this.items.length && this.priorities[left] < this.priorities[smallest]) smallest = left;
+                if (right < this.items.length && this.priorities[right] < this.priorities[smallest]) smallest = right;
+                if (smallest === i) break;
+                this.swap(i, smallest);
+                i = smallest;
+            }
+        }
+
+        return top;
+    }
+
+    private swap(a: number, b: number): void {
+        [this.items[a], this.items[b]] = [this.items[b], this.items[a]];
+        [this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]];
+    }
+}
@@ -0,0 +1,92 @@
+import { CORNER_OFFSETS, DEFAULT_SEA_LEVEL, MAX_TERRAIN_HEIGHT } from "./WorldData";
+import type { GridPosition, WorldData } from "./WorldData";
+
+/**
+ * Outline of the area a brush covers around its centre tile
+ */
+export type BrushShape = "square" | "circle";
+
+/**
+ * Largest brush radius, in tiles from the centre tile
+ */
+export const MAX_BRUSH_RADIUS = 8;
+
+/**
+ * Size and shape of the area terrain tools edit, shared by all of them
+ * so switching tools keeps the same brush
+ */
+export class TerrainBrush {
+    /** Tiles from the centre tile to the edge of the brush; 0 edits a single tile */
+    public radius = 0;
+    public shape: BrushShape = "square";
+    /** Height the level tool brings the ground to, in corner height units */
+    public targetHeight: number;
+
+    constructor(targetHeight = DEFAULT_SEA_LEVEL) {
+        this.targetHeight = targetHeight;
+    }
+
+    /**
+     * Grow or shrink the brush, within 0 and MAX_BRUSH_RADIUS
+     */
+    public resize(delta: number): void {
+        this.radius = Math.max(0, Math.min(MAX_BRUSH_RADIUS, this.radius + delta));
+    }
+
+    /**
+     * Switch between square and circle brushes
+     */
+    public toggleShape(): void {
+        this.shape = this.shape === "square" ? "circle" : "square";
+    }
+
+    /**
+     * Raise or lower the level tool's target height, within the terrain's height range
+     */
+    public adjustTargetHeight(delta: number): void {
+        this.targetHeight = Math.max(0, Math.min(MAX_TERRAIN_HEIGHT, this.targetHeight + delta));
+    }
+
+    /**
+     * Get the tiles the brush covers when centred on a tile, clipped to the map
+     */
+    public getTiles(world: WorldData, center: GridPosition): GridPosition[] {
+        const tiles: GridPosition[] = [];
+        // Circles include tiles whose centres are within half a tile of the radius, so small brushes stay round
+        const circleRadius = (this.radius + 0.5) ** 2;
+
+        for (let dy = -this.radius; dy <= this.radius; dy++) {
+            for (let dx = -this.radius; dx <= this.radius; dx++) {
+                if (this.shape === "circle" && dx * dx + dy * dy > circleRadius) continue;
+
+                const x = center.x + dx;
+                const y = center.y + dy;
+                if (world.isInBounds(x, y)) {
+                    tiles.push({ x, y });
+                }
+            }
+        }
+
+        return tiles;
+    }
+
+    /**
+     * Get every corner vertex of the tiles the brush covers, each once.
+     * Vertices past the east and south edges of the map are left out, as they mirror vertices inside it.
+     */
+    public getVertices(world: WorldData, center: GridPosition): GridPosition[] {
+        const vertices = new Map<number, GridPosition>();
+
+        for (const tile of this.getTiles(world, center)) {
+            for (const offset of CORNER_OFFSETS) {
+                const x = tile.x + offset.x;
+                const y = tile.y + offset.y;
+                if (world.isInBounds(x, y)) {
+                    vertices.set(y * world.width + x, { x, y });
+                }
+            }
+        }
+
+        return [...vertices.values()];
+    }
+}
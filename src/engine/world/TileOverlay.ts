@@ -0,0 +1,128 @@
+import { Container, Graphics } from "pixi.js";
+import type { GridPosition, WorldData } from "./WorldData";
+import { getSurfaceCorners } from "./TilePicker";
+
+/**
+ * Hover outline styling: the hovered tile's outline, and the marker on its hovered corner or edge
+ */
+const HOVER_OUTLINE = { width: 1, color: 0xFFFFFF, alpha: 0.8 };
+const HOVER_MARKER_COLOR = 0xFFE060;
+const HOVER_CORNER_SIZE = 3;
+const HOVER_EDGE = { width: 2, color: HOVER_MARKER_COLOR, alpha: 1 };
+
+/**
+ * Footprint styling: fill opacity inside the footprint and its outline
+ */
+const FOOTPRINT_FILL_ALPHA = 0.25;
+const FOOTPRINT_OUTLINE = { width: 1, alpha: 0.9 };
+
+/**
+ * What the pointer is over, as shown by the overlay
+ */
+export interface TileHover {
+    tile: GridPosition;
+    /** Corner to mark (0=north, 1=east, 2=south, 3=west), or null */
+    corner: number | null;
+    /** Edge to mark (indexed like EDGE_OFFSETS), or null */
+    edge: number | null;
+}
+
+/**
+ * Outlines drawn over the world, following the terrain surface: the hovered tile with its
+ * hovered corner or edge, and the footprint of an action such as a brush or building.
+ * Everything is drawn into one Graphics and redrawn only when something changes.
+ */
+export class TileOverlay extends Container {
+    private worldData: WorldData;
+    private graphics = new Graphics();
+    private viewRotation = 0;
+    private hover: TileHover | null = null;
+    private footprint: GridPosition[] = [];
+    private footprintColor = 0xFFFFFF;
+    /** Whether the outlines need redrawing */
+    private isDirty = false;
+
+    constructor(worldData: WorldData) {
+        super();
+        this.worldData = worldData;
+        this.addChild(this.graphics);
+    }
+
+    /**
+     * Show the hovered tile, optionally marking one of its corners or edges. Pass null to hide it.
+     */
+    public setHover(hover: TileHover | null): void {
+        this.hover = hover;
+        this.isDirty = true;
+    }
+
+    /**
+     * Outline a group of tiles in a color, replacing any previous footprint.
+     * Pass an empty list to hide it.
+     */
+    public setFootprint(tiles: GridPosition[], color: number): void {
+        this.footprint = tiles;
+        this.footprintColor = color;
+        this.isDirty = true;
+    }
+
+    /**
+     * Set the view rotation the outlines are drawn for
+     */
+    public setViewRotation(rotation: number): void {
+        this.viewRotation = rotation;
+        this.isDirty = true;
+    }
+
+    /**
+     * Redraw on the next update, e.g. after terrain heights changed
+     */
+    public invalidate(): void {
+        this.isDirty = true;
+    }
+
+    /**
+     * Redraw the outlines if anything changed since the last update
+     */
+    public update(): void {
+        if (!this.isDirty) return;
+        this.isDirty = false;
+
+        const graphics = this.graphics;
+        graphics.clear();
+
+        for (const tile of this.footprint) {
+            if (!this.worldData.isInBounds(tile.x, tile.y)) continue;
+
+            const points = getSurfaceCorners(this.worldData, tile, this.viewRotation).flatMap(point => [point.x, point.y]);
+            graphics
+                .poly(points)
+                .fill({ color: this.footprintColor, alpha: FOOTPRINT_FILL_ALPHA })
+                .stroke({ ...FOOTPRINT_OUTLINE, color: this.footprintColor });
+        }
+
+        const hover = this.hover;
+        if (!hover || !this.worldData.isInBounds(hover.tile.x, hover.tile.y)) return;
+
+        const corners = getSurfaceCorners(this.worldData, hover.tile, this.viewRotation);
+        graphics.poly(corners.flatMap(point => [point.x, point.y])).stroke(HOVER_OUTLINE);
+
+        // Corners and edges are in world order; each view turn moves them one place clockwise on screen
+        if (hover.corner !== null) {
+            const point = corners[(hover.corner + this.viewRotation) % 4];
+            graphics
+                .poly([
+                    point.x, point.y - HOVER_CORNER_SIZE,
+                    point.x + HOVER_CORNER_SIZE * 2, point.y,
+                    point.x, point.y + HOVER_CORNER_SIZE,
+                    point.x - HOVER_CORNER_SIZE * 2, point.y,
+                ])
+                .fill(HOVER_MARKER_COLOR);
+        }
+        else if (hover.edge !== null) {
+            const from = corners[(hover.edge + this.viewRotation) % 4];
+            const to = corners[(hover.edge + this.viewRotation + 1) % 4];
+            graphics.moveTo(from.x, from.y).lineTo(to.x, to.y).stroke(HOVER_EDGE);
+        }
+    }
+}
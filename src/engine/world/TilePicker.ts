@@ -0,0 +1,183 @@
+import { CORNER_OFFSETS, MAX_TERRAIN_HEIGHT } from "./WorldData";
+import type { GridPosition, WorldData } from "./WorldData";
+import {
+    Coordinate,
+    CornerHeights,
+    getTileTriangles,
+    rotateCorners,
+    screenToWorld,
+    TILE_DEPTH,
+    tileToView,
+    viewToTile,
+    viewToWorld,
+    worldToScreen,
+} from "./IsometricUtils";
+
+/**
+ * How close (in tile units) a point must be to a corner to count as picking that corner
+ */
+export const CORNER_PICK_RADIUS = 0.3;
+
+/**
+ * How close (in tile units) a point must be to an edge to count as picking that edge
+ */
+export const EDGE_PICK_RADIUS = 0.2;
+
+/**
+ * Tile-local positions of each corner, which match the offsets to their vertices
+ */
+const CORNER_LOCAL: readonly Coordinate[] = CORNER_OFFSETS;
+
+/**
+ * What lies under a point on screen
+ */
+export interface TilePick {
+    /** Tile whose surface is under the point */
+    tile: GridPosition;
+    /** World corner (0=north, 1=east, 2=south, 3=west) the point is near, or null when not near any */
+    corner: number | null;
+    /** Edge (indexed like EDGE_OFFSETS) the point is near, or null when near a corner or no edge */
+    edge: number | null;
+    /** Position within the tile from its north corner, 0 to 1 along the world x and y axes */
+    local: Coordinate;
+    /** World position of the point on the surface */
+    world: Coordinate;
+    /** Height of the surface at the point, in corner height units */
+    height: number;
+}
+
+/**
+ * Find the tile surface under a point on screen, taking terrain and water height into account.
+ * Tiles in the point's screen column are tested front to back against their raised diamonds,
+ * so the first hit is the surface that is drawn on top.
+ * @param screen - point in unscaled screen space, as produced by worldToScreen for view coordinates
+ * @param rotation - view rotation, in 90° clockwise turns
+ * @returns the picked surface, or null when the point is off the map
+ */
+export function pickTile(world: WorldData, screen: Coordinate, rotation: number): TilePick | null {
+    // Where the point would be on flat ground at height 0; higher surfaces appear further up the screen
+    const ground = screenToWorld(screen);
+    const column = ground.x - ground.y;
+    const minDiagonal = Math.floor(ground.x + ground.y);
+    const maxDiagonal = Math.ceil(ground.x + ground.y + MAX_TERRAIN_HEIGHT + 2);
+
+    for (let diagonal = maxDiagonal; diagonal >= minDiagonal; diagonal--) {
+        // The two columns of tiles whose diamonds span the point horizontally, on this diagonal
+        for (const difference of [Math.floor(column), Math.ceil(column)]) {
+            if ((diagonal + difference) % 2 !== 0) continue;
+
+            const viewTile = { x: (diagonal + difference) / 2, y: (diagonal - difference) / 2 };
+            const tile = viewToTile(viewTile, rotation);
+            if (!world.isInBounds(tile.x, tile.y)) continue;
+
+            const pick = pickWithinTile(world, tile, viewTile, screen, rotation);
+            if (pick) return pick;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Test a point against one tile's surface, drawn as two triangles between its raised corners.
+ * Water covers the tile as a flat surface at its level.
+ */
+function pickWithinTile(world: WorldData, tile: GridPosition, viewTile: Coordinate, screen: Coordinate, rotation: number): TilePick | null {
+    const corners = getSurfaceHeights(world, tile, rotation);
+    const points = getSurfaceCorners(world, tile, rotation);
+
+    for (const triangle of getTileTriangles(corners)) {
+        const weights = getBarycentric(screen, points[triangle[0]], points[triangle[1]], points[triangle[2]]);
+        if (!weights) continue;
+
+        // Interpolate the view-local position and height across the triangle
+        let lx = 0;
+        let ly = 0;
+        let height = 0;
+        triangle.forEach((corner, i) => {
+            lx += CORNER_LOCAL[corner].x * weights[i];
+            ly += CORNER_LOCAL[corner].y * weights[i];
+            height += corners[corner] * weights[i];
+        });
+
+        const position = viewToWorld({ x: viewTile.x - 1 + lx, y: viewTile.y - 1 + ly }, rotation);
+        const local = { x: position.x - (tile.x - 1), y: position.y - (tile.y - 1) };
+
+        const corner = getNearestCorner(local);
+        const edge = corner === null ? getNearestEdge(local) : null;
+
+        return { tile, corner, edge, local, world: position, height };
+    }
+
+    return null;
+}
+
+/**
+ * Get the heights of a tile's visible surface at each corner, in screen order [north, east, south, west].
+ * Water covers the tile as a flat surface at its level.
+ */
+function getSurfaceHeights(world: WorldData, tile: GridPosition, rotation: number): CornerHeights {
+    const waterLevel = world.getWaterLevel(tile.x, tile.y);
+    return rotateCorners(world.getTileCornerHeights(tile.x, tile.y), rotation)
+        .map(height => Math.max(height, waterLevel)) as CornerHeights;
+}
+
+/**
+ * Get the screen positions of a tile's visible surface corners, in screen order [north, east, south, west],
+ * in the same unscaled screen space that pickTile takes
+ */
+export function getSurfaceCorners(world: WorldData, tile: GridPosition, rotation: number): Coordinate[] {
+    const heights = getSurfaceHeights(world, tile, rotation);
+    const viewTile = tileToView(tile, rotation);
+
+    return CORNER_LOCAL.map((local, corner) => {
+        const projected = worldToScreen({ x: viewTile.x - 1 + local.x, y: viewTile.y - 1 + local.y });
+        return { x: projected.x, y: projected.y - heights[corner] * TILE_DEPTH };
+    });
+}
+
+/**
+ * Get a point's barycentric weights in a triangle
+ * @returns the weights of a, b and c, or null if the point is outside the triangle
+ */
+function getBarycentric(point: Coordinate, a: Coordinate, b: Coordinate, c: Coordinate): [number, number, number] | null {
+    const determinant = (b.y - c.y) * (a.x - c.x) + (c.x - b.x) * (a.y - c.y);
+    if (determinant === 0) return null;
+
+    const wa = ((b.y - c.y) * (point.x - c.x) + (c.x - b.x) * (point.y - c.y)) / determinant;
+    const wb = ((c.y - a.y) * (point.x - c.x) + (a.x - c.x) * (point.y - c.y)) / determinant;
+    const wc = 1 - wa - wb;
+
+    // Allow for rounding on shared edges, so points on a seam are not missed
+    const epsilon = -1e-9;
+    return wa >= epsilon && wb >= epsilon && wc >= epsilon ? [wa, wb, wc] : null;
+}
+
+/**
+ * Find the corner nearest to a position within a tile
+ * @param local - position across the tile from its north corner, 0 to 1 on each axis
+ * @returns corner index (0=north, 1=east, 2=south, 3=west), or null when not near any corner
+ */
+function getNearestCorner(local: Coordinate): number | null {
+    for (let corner = 0; corner < CORNER_LOCAL.length; corner++) {
+        const dx = local.x - CORNER_LOCAL[corner].x;
+        const dy = local.y - CORNER_LOCAL[corner].y;
+        if (Math.sqrt(dx * dx + dy * dy) < CORNER_PICK_RADIUS) {
+            return corner;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Find the edge nearest to a position within a tile
+ * @param local - position across the tile from its north corner, 0 to 1 on each axis
+ * @returns edge index (0=north-east, 1=south-east, 2=south-west, 3=north-west), or null when not near any edge
+ */
+function getNearestEdge(local: Coordinate): number | null {
+    const distances = [local.y, 1 - local.x, 1 - local.y, local.x];
+    const nearest = distances.indexOf(Math.min(...distances));
+
+    return distances[nearest] < EDGE_PICK_RADIUS ? nearest : null;
+}
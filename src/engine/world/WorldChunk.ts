@@ -0,0 +1,55 @@
+/**
+ * Width and height of a chunk, in tiles
+ */
+export const CHUNK_SIZE = 32;
+
+/**
+ * Fixed-size square block of tiles stored as parallel typed arrays,
+ * indexed by (localY * CHUNK_SIZE + localX)
+ */
+export class WorldChunk {
+    /** Chunk coordinates (in chunks, not tiles) */
+    public readonly chunkX: number;
+    public readonly chunkY: number;
+
+    /** Tile type index of each tile */
+    public readonly types = new Uint8Array(CHUNK_SIZE * CHUNK_SIZE);
+    /** North corner height of each tile */
+    public readonly heights = new Uint8Array(CHUNK_SIZE * CHUNK_SIZE);
+    /** Water surface height of each tile, 0 for dry tiles */
+    public readonly water = new Uint8Array(CHUNK_SIZE * CHUNK_SIZE);
+    /** Road connections of each tile, as a RoadDirection bitmask */
+    public readonly roads = new Uint8Array(CHUNK_SIZE * CHUNK_SIZE);
+    /** Per-tile bit flags */
+    public readonly flags = new Uint8Array(CHUNK_SIZE * CHUNK_SIZE);
+    /** Id of the building standing on each tile, 0 for none */
+    public readonly buildings = new Uint16Array(CHUNK_SIZE * CHUNK_SIZE);
+
+    /** Incremented whenever any tile in the chunk changes */
+    public version = 0;
+
+    constructor(chunkX: number, chunkY: number) {
+        this.chunkX = chunkX;
+        this.chunkY = chunkY;
+    }
+
+    /**
+     * Get the array index of a tile from its coordinates within the chunk
+     */
+    public static indexOf(localX: number, localY: number): number {
+        return localY * CHUNK_SIZE + localX;
+    }
+
+    /**
+     * Reset every tile in the chunk to zero
+     */
+    public clear(): void {
+        this.types.fill(0);
+        this.heights.fill(0);
+        this.water.fill(0);
+        this.roads.fill(0);
+        this.flags.fill(0);
+        this.buildings.fill(0);
+        this.version++;
+    }
+}
@@ -1,9 +1,23 @@
-import { Assets, Container } from "pixi.js";
+import { Assets, Container, Texture } from "pixi.js";
 import { WorldData } from "./WorldData";
 import { IsometricRenderer } from "./IsometricRenderer";
 import { Camera } from "./Camera";
+import type { ZoomAnchor } from "./Camera";
 import { InputController } from "../input/InputController";
-import { screenToWorld } from "./IsometricUtils";
+import type { InputAction } from "../input/keyBindings";
+import { engine } from "../../app/getEngine";
+import { randomHash } from "../utils/random";
+import { NoiseWorldGenerator } from "./NoiseWorldGenerator";
+import { rotateVector, screenToWorld, screenToWorldMovement, viewToWorld, worldToScreen, worldToView } from "./IsometricUtils";
+import type { Coordinate } from "./IsometricUtils";
+import { pickTile } from "./TilePicker";
+import type { TilePick } from "./TilePicker";
+import type { GridPosition } from "./WorldData";
+import type { Tool, ToolPointerEvent } from "./tools/Tool";
+import { CommandHistory, TileChangeCommand } from "./CommandHistory";
+import { deserializeWorld, serializeWorld } from "./WorldSerializer";
+import type { WorldSave } from "./WorldSerializer";
+import { BuildingRegistry } from "./BuildingRegistry";
 
 /**
  * Main controller for the isometric world
@@ -15,16 +29,38 @@ export class WorldController extends Container {
     private inputController: InputController;
     private isInitialized = false;
     private lastHoveredTile: { x: number; y: number } | null = null;
+    /** Corner and edge of the hovered tile the mouse was last near */
+    private lastHoveredCorner: number | null = null;
+    private lastHoveredEdge: number | null = null;
+    private tools: Map<string, Tool> = new Map();
+    private activeTool: Tool | null = null;
+    /** Tool that Escape returns to */
+    private defaultToolId: string | null = null;
+    private toolChangeListeners: ((toolId: string | null) => void)[] = [];
+    private tileChangeListeners: ((tiles: GridPosition[] | null) => void)[] = [];
+    private seed: string | null = null;
+    private history = new CommandHistory();
+    private tileTexture: Texture | null = null;
+    private buildings = new BuildingRegistry();
+    /** Screen point being dragged to pan the camera last frame, null when not dragging */
+    private lastPanPoint: Coordinate | null = null;
+    /** Average distance of the fingers from their centre last frame, null when not pinching */
+    private lastPinchSpread: number | null = null;
 
     constructor(width: number = 100, height: number = 100) {
         super();
         
         this.worldData = new WorldData(width, height);
-        this.renderer = new IsometricRenderer();
+        this.renderer = new IsometricRenderer(this.worldData, this.buildings);
         this.camera = new Camera(width, height);
         this.inputController = new InputController();
         
         this.addChild(this.renderer);
+
+        this.inputController.addMouseListener('down', this.handleMouseDown);
+        this.inputController.addMouseListener('up', this.handleMouseUp);
+        this.inputController.addMouseListener('click', this.handleMouseClick);
+        this.inputController.addAnyActionListener(this.handleAction);
     }
 
     /**
@@ -33,38 +69,88 @@ export class WorldController extends Container {
     public async initialize(): Promise<void> {
         if (this.isInitialized) return;
 
-        const texture = await Assets.load("empty.png");
-        await this.renderer.initialize(texture);
+        this.tileTexture = await Assets.load("empty.png");
+        await this.renderer.initialize(this.tileTexture!);
+        await this.buildings.loadFromMetadata();
         
         this.isInitialized = true;
     }
 
     /**
-     * Generate and render a random world
+     * Generate and render a world from a seed
+     * @param seed - seed to reproduce a world from; a random one is picked if omitted
      */
-    public generateRandomWorld(): void {
+    public generateRandomWorld(seed: string = randomHash(8)): void {
         if (!this.isInitialized) {
             console.warn("WorldController not initialized. Call initialize() first.");
             return;
         }
 
-        // Generate random world data
-        this.worldData.generateRandom();
+        // Generate world data, keeping the seed (see getSeed) so the world can be reproduced
+        this.seed = seed;
+        this.worldData.generate(new NoiseWorldGenerator({ seed }));
         
-        // Clear existing rendering
+        // Reset the active tool, since anything it was previewing is gone
+        this.activeTool?.onDeactivate?.();
+        this.activeTool?.onActivate?.();
+
+        // Clear existing rendering; visible chunks are rebuilt from the new data
+        this.history.clear();
         this.renderer.clear();
-        
-        // Render all tiles
-        this.renderWorld();
+        this.updateCameraPosition();
+        this.tileChangeListeners.forEach(listener => listener(null));
     }
 
     /**
-     * Render the entire world
+     * Capture the world and camera so they can be restored with loadSave
      */
-    private renderWorld(): void {
-        for (const tile of this.worldData.tiles.values()) {
-            this.renderer.renderTile(tile, tile.northCornerHeight || 0);
+    public createSave(): WorldSave {
+        return serializeWorld(
+            this.worldData,
+            { x: this.camera.target.x, y: this.camera.target.y, zoom: this.camera.zoom },
+            this.seed,
+        );
+    }
+
+    /**
+     * Replace the world and camera with a saved state
+     * @throws Error if the save's data is corrupt; the current world is kept in that case
+     */
+    public async loadSave(save: WorldSave): Promise<void> {
+        if (!this.isInitialized || !this.tileTexture) {
+            console.warn("WorldController not initialized. Call initialize() first.");
+            return;
         }
+
+        const worldData = deserializeWorld(save);
+
+        this.activeTool?.onDeactivate?.();
+        this.endStroke();
+        this.history.clear();
+
+        // The renderer is bound to one WorldData, so build a new one for the loaded world
+        this.removeChild(this.renderer);
+        this.renderer.destroy();
+        this.worldData = worldData;
+        this.renderer = new IsometricRenderer(worldData, this.buildings);
+        await this.renderer.initialize(this.tileTexture);
+        this.addChildAt(this.renderer, 0);
+        this.lastHoveredTile = null;
+
+        this.seed = save.seed;
+        this.camera.setBounds(0, 0, worldData.width - 1, worldData.height - 1);
+        this.camera.setZoom(save.camera.zoom);
+        this.centerOn(save.camera.x, save.camera.y);
+
+        this.activeTool?.onActivate?.();
+        this.tileChangeListeners.forEach(listener => listener(null));
+    }
+
+    /**
+     * Get the seed the current world was generated from
+     */
+    public getSeed(): string | null {
+        return this.seed;
     }
 
     /**
@@ -89,13 +175,17 @@ export class WorldController extends Container {
     public update(): void {
         if (!this.isInitialized) return;
 
-        // Handle input for camera movement (screen-relative)
+        this.inputController.update();
+
+        // Handle input for camera movement (screen-relative, so turned back from the view rotation)
         const movement = this.inputController.getIsometricMovementInput();
         if (movement.worldX !== 0 || movement.worldY !== 0) {
-            this.camera.move(movement.worldX * this.camera.speed, movement.worldY * this.camera.speed);
+            const delta = rotateVector({ x: movement.worldX, y: movement.worldY }, -this.camera.getRotation());
+            this.camera.move(delta.x * this.camera.speed, delta.y * this.camera.speed);
         }
+        this.updatePanning();
 
-        // Handle zoom input
+        // Handle zoom input: keys zoom around the centre, the wheel around the cursor
         const zoomInput = this.inputController.getZoomInput();
         if (zoomInput.zoomIn) {
             this.camera.zoomIn();
@@ -103,6 +193,7 @@ export class WorldController extends Container {
         if (zoomInput.zoomOut) {
             this.camera.zoomOut();
         }
+        this.updateWheelZoom();
 
         // Update camera position
         this.camera.update();
@@ -110,6 +201,97 @@ export class WorldController extends Container {
 
         // Handle mouse picking for tile hover
         this.updateMousePicking();
+        this.activeTool?.drawPreview?.();
+    }
+
+    /**
+     * Zoom in and out with the mouse wheel or a trackpad pinch, keeping the point under the cursor still
+     */
+    private updateWheelZoom(): void {
+        const wheel = this.inputController.getWheelZoomInput();
+        if (wheel.steps === 0 && wheel.scale === 1) return;
+
+        const anchor = this.getZoomAnchor(this.inputController.getMousePositionRelativeToCenter());
+        for (let i = 0; i < Math.abs(wheel.steps); i++) {
+            if (wheel.steps > 0) {
+                this.camera.zoomIn(anchor);
+            }
+            else {
+                this.camera.zoomOut(anchor);
+            }
+        }
+
+        if (wheel.scale !== 1) {
+            this.camera.setZoom(this.camera.getNextZoom() * wheel.scale, anchor);
+        }
+    }
+
+    /**
+     * Pan the camera by dragging with the middle or right mouse button or two fingers,
+     * or by holding the cursor near the edge of the screen. Spreading two fingers zooms.
+     */
+    private updatePanning(): void {
+        const input = this.inputController;
+        const touches = input.getTouchPositions();
+
+        // Dragging moves the world with the pointer, or with the point between the fingers
+        let dragPoint: Coordinate | null = null;
+        let spread: number | null = null;
+        if (touches.length >= 2) {
+            dragPoint = {
+                x: touches.reduce((sum, touch) => sum + touch.x, 0) / touches.length,
+                y: touches.reduce((sum, touch) => sum + touch.y, 0) / touches.length,
+            };
+            const center = dragPoint;
+            spread = touches.reduce((sum, touch) => sum + Math.hypot(touch.x - center.x, touch.y - center.y), 0) / touches.length;
+        }
+        else {
+            const dragStart = input.getDragStart(1) ?? input.getDragStart(2);
+            if (dragStart) {
+                dragPoint = input.getMousePosition();
+                // Catch up with the distance moved before the press counted as a drag
+                this.lastPanPoint ??= dragStart;
+            }
+        }
+
+        // Only pan once the drag has a previous point, so a change in finger count does not jump
+        if (dragPoint && this.lastPanPoint) {
+            this.panByScreenDistance(dragPoint.x - this.lastPanPoint.x, dragPoint.y - this.lastPanPoint.y);
+        }
+
+        // Pinching zooms around the point between the fingers, then settles on the nearest zoom stop
+        if (dragPoint && spread && this.lastPinchSpread) {
+            const anchor = this.getZoomAnchor(this.toCenterOffset(dragPoint));
+            this.camera.setZoom(this.camera.zoom * spread / this.lastPinchSpread, anchor, true);
+        }
+        else if (!spread && this.lastPinchSpread && this.lastPanPoint) {
+            this.camera.snapZoomToStop(this.getZoomAnchor(this.toCenterOffset(this.lastPanPoint)));
+        }
+
+        this.lastPinchSpread = spread;
+        this.lastPanPoint = dragPoint && { x: dragPoint.x, y: dragPoint.y };
+        if (dragPoint || !this.camera.edgePanning || !input.isMouseOverCanvas() || input.isMouseOverLayer()) return;
+
+        const mouse = input.getMousePosition();
+        const margin = this.camera.edgePanMargin;
+        const app = engine();
+        const screenX = (mouse.x >= app.renderer.width - margin ? 1 : 0) - (mouse.x < margin ? 1 : 0);
+        const screenY = (mouse.y >= app.renderer.height - margin ? 1 : 0) - (mouse.y < margin ? 1 : 0);
+        if (screenX === 0 && screenY === 0) return;
+
+        const delta = rotateVector(screenToWorldMovement(screenX, screenY), -this.camera.getRotation());
+        this.camera.move(delta.x * this.camera.speed, delta.y * this.camera.speed);
+    }
+
+    /**
+     * Move the camera so the world follows a pointer moved by a distance in canvas pixels
+     */
+    private panByScreenDistance(dx: number, dy: number): void {
+        if (dx === 0 && dy === 0) return;
+
+        const viewDelta = screenToWorld({ x: dx / this.camera.zoom, y: dy / this.camera.zoom });
+        const delta = rotateVector(viewDelta, -this.camera.getRotation());
+        this.camera.setNextTarget(this.camera.target.x - delta.x, this.camera.target.y - delta.y, true);
     }
 
     /**
@@ -118,48 +300,364 @@ export class WorldController extends Container {
     private updateCameraPosition(): void {
         const screenPos = this.camera.getScreenPosition();
 
-        this.renderer.x = screenPos.x;
-        this.renderer.y = screenPos.y;
+        // At whole zoom levels, keeping the world on whole screen pixels draws texture pixels crisply
+        const pixelPerfect = this.camera.isPixelPerfect();
+        this.renderer.x = pixelPerfect ? Math.round(screenPos.x) : screenPos.x;
+        this.renderer.y = pixelPerfect ? Math.round(screenPos.y) : screenPos.y;
         this.renderer.scale.set(this.camera.zoom);
+        this.renderer.setScaleMode(pixelPerfect ? 'nearest' : 'linear');
+
+        const app = engine();
+        this.renderer.updateViewport(this.camera, app.renderer.width, app.renderer.height);
+    }
+
+    /**
+     * Get the mouse position in the renderer's unscaled screen space
+     */
+    private getMouseScreenPosition(): { x: number; y: number } {
+        return this.getScreenPositionAt(this.inputController.getMousePositionRelativeToCenter());
+    }
+
+    /**
+     * Convert an offset from the centre of the canvas into the renderer's unscaled screen space
+     */
+    private getScreenPositionAt(offset: Coordinate): Coordinate {
+        const center = worldToScreen(worldToView(this.camera.target, this.camera.getRotation()));
+
+        return {
+            x: center.x + offset.x / this.camera.zoom,
+            y: center.y + offset.y / this.camera.zoom
+        };
+    }
+
+    /**
+     * Convert a position relative to the top left of the canvas into an offset from its centre
+     */
+    private toCenterOffset(position: Coordinate): Coordinate {
+        const app = engine();
+        return { x: position.x - app.renderer.width / 2, y: position.y - app.renderer.height / 2 };
+    }
+
+    /**
+     * Get the surface point under an offset from the centre of the canvas, to hold still while zooming
+     */
+    private getZoomAnchor(offset: Coordinate): ZoomAnchor {
+        const rotation = this.camera.getRotation();
+        const screen = this.getScreenPositionAt(offset);
+        const pick = pickTile(this.worldData, screen, rotation);
+
+        return pick
+            ? { offset, world: pick.world, height: pick.height }
+            : { offset, world: viewToWorld(screenToWorld(screen), rotation), height: 0 };
+    }
+
+    /**
+     * Get the world position under the mouse cursor on the ground plane
+     */
+    private getMouseWorldPosition(): { x: number; y: number } {
+        return viewToWorld(screenToWorld(this.getMouseScreenPosition()), this.camera.getRotation());
+    }
+
+    /**
+     * Find the tile surface under the mouse cursor, allowing for terrain height
+     */
+    public pickAtMouse(): TilePick | null {
+        return pickTile(this.worldData, this.getMouseScreenPosition(), this.camera.getRotation());
     }
 
     /**
      * Handle mouse picking for tile hover effects
      */
     private updateMousePicking(): void {
-        const mousePos = this.inputController.getMousePositionRelativeToCenter();
+        // Nothing is hovered through the UI
+        const pick = this.inputController.isMouseOverLayer() ? null : this.pickAtMouse();
+        const tile = pick?.tile ?? null;
+        const corner = pick?.corner ?? null;
+        const edge = pick?.edge ?? null;
 
-        const worldOffset = screenToWorld({
-            x: mousePos.x / this.camera.zoom,
-            y: mousePos.y / this.camera.zoom
-        });
-        
-        const worldMouseX = this.camera.target.x + worldOffset.x;
-        const worldMouseY = this.camera.target.y + worldOffset.y;
-        
-        const tileX = Math.ceil(worldMouseX);
-        const tileY = Math.ceil(worldMouseY);
-
-        // Update tile hover if mouse moved to a different tile
-        if (!this.lastHoveredTile || 
-            this.lastHoveredTile.x !== tileX || 
-            this.lastHoveredTile.y !== tileY) {
-            
-            // Clear previous hover
-            if (this.lastHoveredTile) {
-                this.renderer.setTileHover(this.lastHoveredTile.x, this.lastHoveredTile.y, false);
+        // Update the hover if the mouse moved to a different tile, corner or edge
+        if (tile?.x !== this.lastHoveredTile?.x ||
+            tile?.y !== this.lastHoveredTile?.y ||
+            corner !== this.lastHoveredCorner ||
+            edge !== this.lastHoveredEdge) {
+
+            // Only tools that edit corners get them marked; others outline the whole tile
+            const marksCorners = this.activeTool?.hoverCorners ?? false;
+            this.renderer.setHover(tile && {
+                tile,
+                corner: marksCorners ? corner : null,
+                edge: marksCorners ? edge : null,
+            });
+            this.lastHoveredTile = tile;
+            this.lastHoveredCorner = corner;
+            this.lastHoveredEdge = edge;
+
+            this.activeTool?.onPointerMove?.(this.createPointerEvent(-1, pick));
+        }
+    }
+
+    /**
+     * Make a tool available for activation by its id
+     */
+    public registerTool(tool: Tool): void {
+        this.tools.set(tool.id, tool);
+    }
+
+    /**
+     * Set the tool that is activated on startup and when Escape is pressed
+     */
+    public setDefaultTool(toolId: string): void {
+        this.defaultToolId = toolId;
+        if (!this.activeTool) {
+            this.setActiveTool(toolId);
+        }
+    }
+
+    /**
+     * Switch to a registered tool, or pass null to disable world interaction
+     */
+    public setActiveTool(toolId: string | null): void {
+        const tool = toolId === null ? null : this.tools.get(toolId);
+        if (tool === undefined) {
+            console.warn(`Unknown tool "${toolId}"`);
+            return;
+        }
+        if (tool === this.activeTool) return;
+
+        this.activeTool?.onDeactivate?.();
+        this.activeTool = tool;
+        this.activeTool?.onActivate?.();
+
+        // Redraw the hover for the new tool on the next update
+        this.lastHoveredTile = null;
+
+        this.toolChangeListeners.forEach(listener => listener(toolId));
+    }
+
+    /**
+     * Get the active tool
+     */
+    public getActiveTool(): Tool | null {
+        return this.activeTool;
+    }
+
+    /**
+     * Listen for the active tool changing, including through Escape
+     */
+    public addToolChangeListener(callback: (toolId: string | null) => void): void {
+        this.toolChangeListeners.push(callback);
+    }
+
+    /**
+     * Remove a listener added with addToolChangeListener
+     */
+    public removeToolChangeListener(callback: (toolId: string | null) => void): void {
+        const index = this.toolChangeListeners.indexOf(callback);
+        if (index > -1) {
+            this.toolChangeListeners.splice(index, 1);
+        }
+    }
+
+    /**
+     * Describe the pointer's current position for the active tool
+     */
+    private createPointerEvent(button: number, pick: TilePick | null = this.pickAtMouse()): ToolPointerEvent {
+        if (!pick) {
+            return { button, world: this.getMouseWorldPosition(), tile: null, corner: null, edge: null, local: null };
+        }
+
+        return { button, world: pick.world, tile: pick.tile, corner: pick.corner, edge: pick.edge, local: pick.local };
+    }
+
+    /**
+     * Pass left button presses to the active tool
+     */
+    private handleMouseDown = (button: number): void => {
+        if (!this.isInitialized || button !== 0) return;
+
+        // Everything a tool changes from press to release is one undo step
+        this.beginStroke();
+        this.activeTool?.onPointerDown?.(this.createPointerEvent(button));
+    };
+
+    /**
+     * Pass left button releases to the active tool
+     */
+    private handleMouseUp = (button: number): void => {
+        if (!this.isInitialized || button !== 0) return;
+
+        this.activeTool?.onPointerUp?.(this.createPointerEvent(button));
+        this.endStroke();
+    };
+
+    /**
+     * Pass clicks of the other buttons to the active tool as a press and release.
+     * Dragging with them pans the camera, so the tool only hears about them when they are not dragged.
+     */
+    private handleMouseClick = (button: number): void => {
+        if (!this.isInitialized || button === 0) return;
+
+        const event = this.createPointerEvent(button);
+        this.activeTool?.onPointerDown?.(event);
+        this.activeTool?.onPointerUp?.(event);
+    };
+
+    /**
+     * Pass key actions to the active tool; unhandled cancels return to the default tool,
+     * and undo, redo and view turns are handled here
+     */
+    private handleAction = (action: InputAction): void => {
+        if (action === 'undo') {
+            this.undo();
+            return;
+        }
+        if (action === 'redo') {
+            this.redo();
+            return;
+        }
+
+        if (this.activeTool?.onAction?.(action)) {
+            // The action may have changed what the tool marks under the pointer
+            this.lastHoveredTile = null;
+            return;
+        }
+
+        if (action === 'cancel' && this.defaultToolId) {
+            this.setActiveTool(this.defaultToolId);
+        }
+        else if (action === 'rotate-view-left') {
+            this.rotateView(-1);
+        }
+        else if (action === 'rotate-view-right') {
+            this.rotateView(1);
+        }
+    };
+
+    /**
+     * Turn the view by 90° steps, clockwise for positive steps, keeping the same point centred
+     */
+    public rotateView(steps: number): void {
+        this.camera.rotate(steps);
+        this.updateCameraPosition();
+    }
+
+    /**
+     * Start recording world changes as a single undo step,
+     * finishing any stroke left open by a release outside the canvas
+     */
+    private beginStroke(): void {
+        this.endStroke();
+        this.worldData.beginRecording();
+    }
+
+    /**
+     * Stop recording and add the changes, if any, to the undo history
+     */
+    private endStroke(): void {
+        if (!this.worldData.isRecording()) return;
+
+        const command = TileChangeCommand.fromRecording(this.worldData, this.worldData.endRecording());
+        if (command) {
+            this.history.push(command);
+        }
+    }
+
+    /**
+     * Revert the most recent world edit
+     */
+    public undo(): void {
+        this.endStroke();
+        this.refreshAround(this.history.undo(this.worldData));
+    }
+
+    /**
+     * Re-apply the most recently undone world edit
+     */
+    public redo(): void {
+        this.endStroke();
+        this.refreshAround(this.history.redo(this.worldData));
+    }
+
+    /**
+     * Re-render changed tiles and their neighbours, whose corners, cliff
+     * faces and shorelines can depend on the changed tiles
+     */
+    private refreshAround(tiles: GridPosition[]): void {
+        const keys = new Set<number>();
+        for (const { x, y } of tiles) {
+            for (let dy = -1; dy <= 1; dy++) {
+                for (let dx = -1; dx <= 1; dx++) {
+                    if (this.worldData.isInBounds(x + dx, y + dy)) {
+                        keys.add((y + dy) * this.worldData.width + x + dx);
+                    }
+                }
             }
-            
-            // Set new hover if tile exists
-            const tile = this.worldData.getTile(tileX, tileY);
+        }
+
+        this.refreshTiles([...keys].map(key => ({ x: key % this.worldData.width, y: Math.floor(key / this.worldData.width) })));
+    }
+
+    /**
+     * Re-render tiles after their data has changed
+     */
+    public refreshTiles(tiles: GridPosition[]): void {
+        for (const position of tiles) {
+            const tile = this.worldData.getTile(position.x, position.y);
             if (tile) {
-                this.renderer.setTileHover(tileX, tileY, true);
-                this.lastHoveredTile = { x: tileX, y: tileY };
-            }
-            else {
-                this.lastHoveredTile = null;
+                this.renderer.renderTile(tile);
             }
         }
+
+        this.tileChangeListeners.forEach(listener => listener(tiles));
+    }
+
+    /**
+     * Listen for tiles changing, e.g. to keep a map of the world up to date.
+     * The callback gets the changed tiles, or null when the whole world was generated or loaded.
+     */
+    public addTileChangeListener(callback: (tiles: GridPosition[] | null) => void): void {
+        this.tileChangeListeners.push(callback);
+    }
+
+    /**
+     * Remove a listener added with addTileChangeListener
+     */
+    public removeTileChangeListener(callback: (tiles: GridPosition[] | null) => void): void {
+        const index = this.tileChangeListeners.indexOf(callback);
+        if (index > -1) {
+            this.tileChangeListeners.splice(index, 1);
+        }
+    }
+
+    /**
+     * Get the world positions on the ground plane at the corners of the canvas, clockwise from
+     * the top left, outlining the part of the world the camera shows
+     */
+    public getViewportCorners(): Coordinate[] {
+        const app = engine();
+        const rotation = this.camera.getRotation();
+        const corners = [
+            { x: 0, y: 0 },
+            { x: app.renderer.width, y: 0 },
+            { x: app.renderer.width, y: app.renderer.height },
+            { x: 0, y: app.renderer.height },
+        ];
+
+        return corners.map(corner => viewToWorld(screenToWorld(this.getScreenPositionAt(this.toCenterOffset(corner))), rotation));
+    }
+
+    /**
+     * Get the catalogue of buildings that can be placed
+     */
+    public getBuildingRegistry(): BuildingRegistry {
+        return this.buildings;
+    }
+
+    /**
+     * Get the renderer, for tools that draw previews
+     */
+    public getRenderer(): IsometricRenderer {
+        return this.renderer;
     }
 
     /**
@@ -180,7 +678,16 @@ export class WorldController extends Container {
      * Clean up resources
      */
     public destroy(): void {
+        this.inputController.removeMouseListener('down', this.handleMouseDown);
+        this.inputController.removeMouseListener('up', this.handleMouseUp);
+        this.inputController.removeMouseListener('click', this.handleMouseClick);
+        this.inputController.removeAnyActionListener(this.handleAction);
+        this.activeTool?.onDeactivate?.();
+        this.activeTool = null;
+        this.toolChangeListeners = [];
+        this.tileChangeListeners = [];
         this.inputController.destroy();
+        this.renderer.destroy();
         super.destroy();
     }
 }
@@ -1,31 +1,212 @@
+import { CHUNK_SIZE, WorldChunk } from "./WorldChunk";
+import type { WorldGenerator } from "./WorldGenerator";
+import { getSlopeShape, SLOPE_SHAPES } from "./IsometricUtils";
+import type { BuildingFacing } from "./BuildingRegistry";
+
 /**
- * Represents a single tile in the world
+ * Represents a single tile in the world.
+ * Tiles returned by WorldData are snapshots; write changes back with setTile.
  */
 export interface Tile {
     type: number;
     northCornerHeight: number;
+    /** Height of the water surface over the tile, 0 if dry */
+    waterLevel: number;
+    /** Road connections, as a RoadDirection bitmask */
+    roadMask: number;
+    /** TileFlags bits */
+    flags: number;
+    /** Id of the building standing on the tile, 0 for none */
+    buildingId: number;
     x: number;
     y: number;
 }
 
+/**
+ * Tile type indices into the tile sprite sheet
+ */
+export const TileType = {
+    Sand: 0,
+    Grass: 1,
+    Water: 2,
+    Rock: 3,
+} as const;
+
+/**
+ * Bit flags stored per tile
+ */
+export const TileFlags = {
+    /** Tile has a road, even if it connects to nothing yet */
+    Road: 1 << 0,
+} as const;
+
+/**
+ * Road connection bits, one per tile edge
+ */
+export const RoadDirection = {
+    NorthEast: 1 << 0,
+    SouthEast: 1 << 1,
+    SouthWest: 1 << 2,
+    NorthWest: 1 << 3,
+} as const;
+
+/**
+ * Offsets to the neighbouring tile across each edge, indexed by edge:
+ * 0=north-east, 1=south-east, 2=south-west, 3=north-west (matching RoadDirection bits)
+ */
+export const EDGE_OFFSETS: readonly GridPosition[] = [
+    { x: 0, y: -1 },
+    { x: 1, y: 0 },
+    { x: 0, y: 1 },
+    { x: -1, y: 0 },
+];
+
+/**
+ * Road connections along the world x axis (south-east/north-west) and y axis (north-east/south-west)
+ */
+const ROAD_AXIS_X = RoadDirection.SouthEast | RoadDirection.NorthWest;
+const ROAD_AXIS_Y = RoadDirection.NorthEast | RoadDirection.SouthWest;
+
+/**
+ * Simple grid position in tile or vertex space
+ */
+export interface GridPosition {
+    x: number;
+    y: number;
+}
+
+/**
+ * A building placed in the world, covering a rectangle of tiles
+ */
+export interface Building {
+    /** Unique id within the world, never 0 */
+    id: number;
+    /** Id of its BuildingDefinition */
+    type: string;
+    /** North-most tile of the footprint */
+    x: number;
+    y: number;
+    /** Tiles covered along the x and y axes, already turned to its facing */
+    width: number;
+    height: number;
+    facing: BuildingFacing;
+}
+
+/**
+ * Changes captured between beginRecording and endRecording
+ */
+export interface WorldRecording {
+    /** Each changed tile as it was before the recording, keyed by (y * width + x) */
+    tiles: Map<number, Tile>;
+    /** Each changed building as it was before the recording, or null if it did not exist, keyed by id */
+    buildings: Map<number, Building | null>;
+}
+
+/**
+ * Maximum terrain height, in corner height units
+ */
+export const MAX_TERRAIN_HEIGHT = 15;
+
+/**
+ * Offsets from a tile's coordinates to the vertex of each corner,
+ * indexed by corner: 0=north, 1=east, 2=south, 3=west
+ */
+export const CORNER_OFFSETS: readonly GridPosition[] = [
+    { x: 0, y: 0 },
+    { x: 1, y: 0 },
+    { x: 1, y: 1 },
+    { x: 0, y: 1 },
+];
+
+/**
+ * Offsets to the four vertices sharing a tile edge with a vertex
+ */
+const NEIGHBOUR_OFFSETS: readonly [number, number][] = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+
+/**
+ * Default height of the sea surface, in corner height units
+ */
+export const DEFAULT_SEA_LEVEL = 2;
+
 /**
  * Represents the entire world data structure
  */
 export class WorldData {
-    public tiles: Map<string, Tile> = new Map();
     public width: number;
     public height: number;
 
+    /** Global sea surface height; land with corners below it is flooded */
+    public seaLevel = DEFAULT_SEA_LEVEL;
+
+    /** Number of chunks across and down the world */
+    public readonly chunksX: number;
+    public readonly chunksY: number;
+
+    /** Chunks stored row by row, indexed by (chunkY * chunksX + chunkX) */
+    private chunks: WorldChunk[] = [];
+
+    /** Buildings by id */
+    private buildings: Map<number, Building> = new Map();
+    private nextBuildingId = 1;
+
+    /** Tiles and buildings as they were before the current recording first changed them */
+    private recording: WorldRecording | null = null;
+
     constructor(width: number, height: number) {
         this.width = width;
         this.height = height;
+
+        this.chunksX = Math.ceil(width / CHUNK_SIZE);
+        this.chunksY = Math.ceil(height / CHUNK_SIZE);
+
+        for (let cy = 0; cy < this.chunksY; cy++) {
+            for (let cx = 0; cx < this.chunksX; cx++) {
+                this.chunks.push(new WorldChunk(cx, cy));
+            }
+        }
+    }
+
+    /**
+     * Check whether tile coordinates fall inside the world
+     */
+    public isInBounds(x: number, y: number): boolean {
+        return x >= 0 && y >= 0 && x < this.width && y < this.height;
+    }
+
+    /**
+     * Get the chunk at the given chunk coordinates
+     */
+    public getChunk(chunkX: number, chunkY: number): WorldChunk | undefined {
+        if (chunkX < 0 || chunkY < 0 || chunkX >= this.chunksX || chunkY >= this.chunksY) return undefined;
+        return this.chunks[chunkY * this.chunksX + chunkX];
+    }
+
+    /**
+     * Get the chunk containing the given tile coordinates
+     */
+    public getChunkAt(x: number, y: number): WorldChunk | undefined {
+        return this.getChunk(Math.floor(x / CHUNK_SIZE), Math.floor(y / CHUNK_SIZE));
     }
 
     /**
      * Get a tile at the specified coordinates
      */
     public getTile(x: number, y: number): Tile | undefined {
-        return this.tiles.get(`${x},${y}`);
+        if (!this.isInBounds(x, y)) return undefined;
+
+        const chunk = this.chunks[Math.floor(y / CHUNK_SIZE) * this.chunksX + Math.floor(x / CHUNK_SIZE)];
+        const index = WorldChunk.indexOf(x % CHUNK_SIZE, y % CHUNK_SIZE);
+
+        return {
+            type: chunk.types[index],
+            northCornerHeight: chunk.heights[index],
+            waterLevel: chunk.water[index],
+            roadMask: chunk.roads[index],
+            flags: chunk.flags[index],
+            buildingId: chunk.buildings[index],
+            x,
+            y,
+        };
     }
 
     /**
@@ -34,7 +215,309 @@ export class WorldData {
     public setTile(x: number, y: number, tile: Tile): void {
         tile.x = x;
         tile.y = y;
-        this.tiles.set(`${x},${y}`, tile);
+        if (!this.isInBounds(x, y)) return;
+
+        this.recordTile(x, y);
+
+        const chunk = this.chunks[Math.floor(y / CHUNK_SIZE) * this.chunksX + Math.floor(x / CHUNK_SIZE)];
+        const index = WorldChunk.indexOf(x % CHUNK_SIZE, y % CHUNK_SIZE);
+
+        chunk.types[index] = tile.type;
+        chunk.heights[index] = tile.northCornerHeight;
+        chunk.water[index] = tile.waterLevel;
+        chunk.roads[index] = tile.roadMask;
+        chunk.flags[index] = tile.flags;
+        chunk.buildings[index] = tile.buildingId;
+        chunk.version++;
+    }
+
+    /**
+     * Get the type of a tile without allocating a Tile object
+     */
+    public getTileType(x: number, y: number): number {
+        if (!this.isInBounds(x, y)) return 0;
+
+        const chunk = this.chunks[Math.floor(y / CHUNK_SIZE) * this.chunksX + Math.floor(x / CHUNK_SIZE)];
+        return chunk.types[WorldChunk.indexOf(x % CHUNK_SIZE, y % CHUNK_SIZE)];
+    }
+
+    /**
+     * Set the type of a tile
+     */
+    public setTileType(x: number, y: number, type: number): void {
+        if (!this.isInBounds(x, y)) return;
+
+        this.recordTile(x, y);
+
+        const chunk = this.chunks[Math.floor(y / CHUNK_SIZE) * this.chunksX + Math.floor(x / CHUNK_SIZE)];
+        chunk.types[WorldChunk.indexOf(x % CHUNK_SIZE, y % CHUNK_SIZE)] = type;
+        chunk.version++;
+    }
+
+    /**
+     * Get the water surface height of a tile, 0 if it is dry
+     */
+    public getWaterLevel(x: number, y: number): number {
+        if (!this.isInBounds(x, y)) return 0;
+
+        const chunk = this.chunks[Math.floor(y / CHUNK_SIZE) * this.chunksX + Math.floor(x / CHUNK_SIZE)];
+        return chunk.water[WorldChunk.indexOf(x % CHUNK_SIZE, y % CHUNK_SIZE)];
+    }
+
+    /**
+     * Set the water surface height of a tile directly, 0 to make it dry
+     */
+    public setWaterLevel(x: number, y: number, level: number): void {
+        if (!this.isInBounds(x, y)) return;
+
+        this.recordTile(x, y);
+
+        const chunk = this.chunks[Math.floor(y / CHUNK_SIZE) * this.chunksX + Math.floor(x / CHUNK_SIZE)];
+        chunk.water[WorldChunk.indexOf(x % CHUNK_SIZE, y % CHUNK_SIZE)] = level;
+        chunk.version++;
+    }
+
+    /**
+     * Get the road connections of a tile as a RoadDirection bitmask
+     */
+    public getRoadMask(x: number, y: number): number {
+        if (!this.isInBounds(x, y)) return 0;
+
+        const chunk = this.chunks[Math.floor(y / CHUNK_SIZE) * this.chunksX + Math.floor(x / CHUNK_SIZE)];
+        return chunk.roads[WorldChunk.indexOf(x % CHUNK_SIZE, y % CHUNK_SIZE)];
+    }
+
+    /**
+     * Check whether a tile has a road
+     */
+    public hasRoad(x: number, y: number): boolean {
+        if (!this.isInBounds(x, y)) return false;
+
+        const chunk = this.chunks[Math.floor(y / CHUNK_SIZE) * this.chunksX + Math.floor(x / CHUNK_SIZE)];
+        return (chunk.flags[WorldChunk.indexOf(x % CHUNK_SIZE, y % CHUNK_SIZE)] & TileFlags.Road) !== 0;
+    }
+
+    /**
+     * Set or clear the road on a tile, with the given connections
+     */
+    public setRoad(x: number, y: number, hasRoad: boolean, mask: number = 0): void {
+        if (!this.isInBounds(x, y)) return;
+
+        this.recordTile(x, y);
+
+        const chunk = this.chunks[Math.floor(y / CHUNK_SIZE) * this.chunksX + Math.floor(x / CHUNK_SIZE)];
+        const index = WorldChunk.indexOf(x % CHUNK_SIZE, y % CHUNK_SIZE);
+
+        chunk.roads[index] = hasRoad ? mask : 0;
+        chunk.flags[index] = hasRoad ? chunk.flags[index] | TileFlags.Road : chunk.flags[index] & ~TileFlags.Road;
+        chunk.version++;
+    }
+
+    /**
+     * Check whether a road with the given connections can sit on a tile.
+     * Roads need dry land that is either flat or a straight ramp running along the road.
+     */
+    public canPlaceRoad(x: number, y: number, mask: number): boolean {
+        if (!this.isInBounds(x, y) || this.getWaterLevel(x, y) > 0 || this.getBuildingIdAt(x, y) !== 0) return false;
+
+        const shape = SLOPE_SHAPES[getSlopeShape(this.getTileCornerHeights(x, y)).index];
+        switch (shape) {
+            case "0000":
+                return true;
+            // Ramps rising towards the north-east or south-west edge run along the y axis
+            case "1100":
+            case "0011":
+                return (mask & ROAD_AXIS_X) === 0;
+            // Ramps rising towards the south-east or north-west edge run along the x axis
+            case "0110":
+            case "1001":
+                return (mask & ROAD_AXIS_Y) === 0;
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Lay a road along a path of adjacent tiles, connecting each tile to the next
+     * and keeping any existing connections
+     * @returns the tiles whose roads changed
+     */
+    public buildRoad(path: GridPosition[]): GridPosition[] {
+        const masks = getRoadPathMasks(path);
+        const changed: GridPosition[] = [];
+
+        path.forEach((position, i) => {
+            const mask = this.getRoadMask(position.x, position.y) | masks[i];
+            if (this.hasRoad(position.x, position.y) && mask === this.getRoadMask(position.x, position.y)) return;
+
+            this.setRoad(position.x, position.y, true, mask);
+            changed.push({ x: position.x, y: position.y });
+        });
+
+        return changed;
+    }
+
+    /**
+     * Get the id of the building standing on a tile, 0 if there is none
+     */
+    public getBuildingIdAt(x: number, y: number): number {
+        if (!this.isInBounds(x, y)) return 0;
+
+        const chunk = this.chunks[Math.floor(y / CHUNK_SIZE) * this.chunksX + Math.floor(x / CHUNK_SIZE)];
+        return chunk.buildings[WorldChunk.indexOf(x % CHUNK_SIZE, y % CHUNK_SIZE)];
+    }
+
+    /**
+     * Get the building standing on a tile
+     */
+    public getBuildingAt(x: number, y: number): Building | undefined {
+        const id = this.getBuildingIdAt(x, y);
+        return id === 0 ? undefined : this.buildings.get(id);
+    }
+
+    /**
+     * Get a building by id
+     */
+    public getBuilding(id: number): Building | undefined {
+        return this.buildings.get(id);
+    }
+
+    /**
+     * Get every building in the world
+     */
+    public getBuildings(): Building[] {
+        return [...this.buildings.values()];
+    }
+
+    /**
+     * Check whether a building could stand on a rectangle of tiles. Buildings need
+     * flat, dry ground clear of roads and other buildings, with a road alongside.
+     * @returns why the building cannot be placed, or null if it can
+     */
+    public getBuildingPlacementProblem(x: number, y: number, width: number, height: number): string | null {
+        if (!this.isInBounds(x, y) || !this.isInBounds(x + width - 1, y + height - 1)) {
+            return "Outside the map";
+        }
+
+        const baseHeight = this.getVertexHeight(x, y);
+        for (let vy = y; vy <= y + height; vy++) {
+            for (let vx = x; vx <= x + width; vx++) {
+                if (this.getVertexHeight(vx, vy) !== baseHeight) return "Ground is not flat";
+            }
+        }
+
+        for (let ty = y; ty < y + height; ty++) {
+            for (let tx = x; tx < x + width; tx++) {
+                if (this.getWaterLevel(tx, ty) > 0) return "Under water";
+                if (this.hasRoad(tx, ty)) return "Blocked by a road";
+                if (this.getBuildingIdAt(tx, ty) !== 0) return "Blocked by another building";
+            }
+        }
+
+        // Tiles just outside each side of the footprint
+        for (let i = 0; i < width; i++) {
+            if (this.hasRoad(x + i, y - 1) || this.hasRoad(x + i, y + height)) return null;
+        }
+        for (let i = 0; i < height; i++) {
+            if (this.hasRoad(x - 1, y + i) || this.hasRoad(x + width, y + i)) return null;
+        }
+
+        return "Needs a road alongside";
+    }
+
+    /**
+     * Put a building on the world, without checking its placement
+     * @param id - id to give the building; a new one is picked if omitted
+     * @returns the tiles the building covers
+     */
+    public placeBuilding(placement: Omit<Building, "id">, id = this.nextBuildingId): GridPosition[] {
+        const building: Building = { ...placement, id };
+        this.nextBuildingId = Math.max(this.nextBuildingId, id + 1);
+
+        this.setBuildingRecord(id, building);
+        return this.writeBuildingTiles(building, id);
+    }
+
+    /**
+     * Take a building off the world
+     * @returns the tiles the building covered
+     */
+    public removeBuilding(id: number): GridPosition[] {
+        const building = this.buildings.get(id);
+        if (!building) return [];
+
+        this.setBuildingRecord(id, null);
+        return this.writeBuildingTiles(building, 0);
+    }
+
+    /**
+     * Replace or delete a building's record directly, leaving the tiles it covers untouched.
+     * Used to restore recorded state; tiles are restored separately.
+     */
+    public setBuildingRecord(id: number, building: Building | null): void {
+        if (this.recording && !this.recording.buildings.has(id)) {
+            const original = this.buildings.get(id);
+            this.recording.buildings.set(id, original ? { ...original } : null);
+        }
+
+        if (building) {
+            this.buildings.set(id, { ...building });
+        }
+        else {
+            this.buildings.delete(id);
+        }
+    }
+
+    /**
+     * Set the building id of every tile in a building's footprint
+     * @returns the tiles of the footprint
+     */
+    private writeBuildingTiles(building: Building, id: number): GridPosition[] {
+        const tiles: GridPosition[] = [];
+
+        for (let y = building.y; y < building.y + building.height; y++) {
+            for (let x = building.x; x < building.x + building.width; x++) {
+                if (!this.isInBounds(x, y)) continue;
+
+                this.recordTile(x, y);
+                const chunk = this.chunks[Math.floor(y / CHUNK_SIZE) * this.chunksX + Math.floor(x / CHUNK_SIZE)];
+                chunk.buildings[WorldChunk.indexOf(x % CHUNK_SIZE, y % CHUNK_SIZE)] = id;
+                chunk.version++;
+                tiles.push({ x, y });
+            }
+        }
+
+        return tiles;
+    }
+
+    /**
+     * Call a function for every tile in the world, chunk by chunk.
+     * The same Tile object is reused for every call, so copy it to keep it.
+     */
+    public forEachTile(callback: (tile: Tile) => void): void {
+        const tile: Tile = { type: 0, northCornerHeight: 0, waterLevel: 0, roadMask: 0, flags: 0, buildingId: 0, x: 0, y: 0 };
+
+        for (const chunk of this.chunks) {
+            const originX = chunk.chunkX * CHUNK_SIZE;
+            const originY = chunk.chunkY * CHUNK_SIZE;
+            const maxX = Math.min(CHUNK_SIZE, this.width - originX);
+            const maxY = Math.min(CHUNK_SIZE, this.height - originY);
+
+            for (let localY = 0; localY < maxY; localY++) {
+                for (let localX = 0; localX < maxX; localX++) {
+                    const index = WorldChunk.indexOf(localX, localY);
+                    tile.x = originX + localX;
+                    tile.y = originY + localY;
+                    tile.type = chunk.types[index];
+                    tile.northCornerHeight = chunk.heights[index];
+                    tile.waterLevel = chunk.water[index];
+                    tile.roadMask = chunk.roads[index];
+                    tile.flags = chunk.flags[index];
+                    tile.buildingId = chunk.buildings[index];
+                    callback(tile);
+                }
+            }
+        }
     }
 
     /**
@@ -44,26 +527,33 @@ export class WorldData {
      * @param corner - which corner: 0=north, 1=east, 2=south, 3=west
      */
     public getCornerHeight(x: number, y: number, corner: number): number {
-        switch (corner) {
-            case 0: // North corner - stored in this tile
-                const tile = this.getTile(x, y);
-                return tile?.northCornerHeight ?? 0;
-            
-            case 1: // East corner - north corner of tile to the east
-                const eastTile = this.getTile(x + 1, y);
-                return eastTile?.northCornerHeight ?? 0;
-            
-            case 2: // South corner - north corner of tile to the south
-                const southTile = this.getTile(x, y + 1);
-                return southTile?.northCornerHeight ?? 0;
-            
-            case 3: // West corner - north corner of tile to the west
-                const westTile = this.getTile(x - 1, y);
-                return westTile?.northCornerHeight ?? 0;
-            
-            default:
-                return 0;
-        }
+        const offset = CORNER_OFFSETS[corner];
+        if (!offset) return 0;
+
+        return this.getVertexHeight(x + offset.x, y + offset.y);
+    }
+
+    /**
+     * Get the height of a vertex in the corner grid.
+     * Vertex (x, y) is the north corner of tile (x, y). Vertices past the
+     * east and south edges of the map mirror the nearest vertex inside it.
+     */
+    public getVertexHeight(vx: number, vy: number): number {
+        const x = Math.max(0, Math.min(this.width - 1, vx));
+        const y = Math.max(0, Math.min(this.height - 1, vy));
+
+        const chunk = this.chunks[Math.floor(y / CHUNK_SIZE) * this.chunksX + Math.floor(x / CHUNK_SIZE)];
+        return chunk.heights[WorldChunk.indexOf(x % CHUNK_SIZE, y % CHUNK_SIZE)];
+    }
+
+    /**
+     * Write a vertex height directly, without enforcing the one-step rule
+     */
+    private writeVertexHeight(vx: number, vy: number, height: number): void {
+        this.recordTile(vx, vy);
+        const chunk = this.chunks[Math.floor(vy / CHUNK_SIZE) * this.chunksX + Math.floor(vx / CHUNK_SIZE)];
+        chunk.heights[WorldChunk.indexOf(vx % CHUNK_SIZE, vy % CHUNK_SIZE)] = height;
+        chunk.version++;
     }
 
     /**
@@ -82,21 +572,292 @@ export class WorldData {
     }
 
     /**
-     * Generate a random world with the specified dimensions
+     * Raise or lower a single corner of a tile by one unit
+     * @returns the tiles whose corner heights changed
+     */
+    public adjustCorner(x: number, y: number, corner: number, delta: number): GridPosition[] {
+        const offset = CORNER_OFFSETS[corner];
+        if (!offset) return [];
+
+        const vx = x + offset.x;
+        const vy = y + offset.y;
+
+        return this.setVertexHeights([{ x: vx, y: vy, height: this.getVertexHeight(vx, vy) + delta }]);
+    }
+
+    /**
+     * Raise or lower both corners along one edge of a tile by one unit
+     * @param edge - which edge, indexed like EDGE_OFFSETS; it runs from corner `edge` to the next corner clockwise
+     * @returns the tiles whose corner heights changed
+     */
+    public adjustEdge(x: number, y: number, edge: number, delta: number): GridPosition[] {
+        const corners = [CORNER_OFFSETS[edge], CORNER_OFFSETS[(edge + 1) % 4]];
+        if (!corners[0]) return [];
+
+        return this.setVertexHeights(corners.map(offset => ({
+            x: x + offset.x,
+            y: y + offset.y,
+            height: this.getVertexHeight(x + offset.x, y + offset.y) + delta,
+        })));
+    }
+
+    /**
+     * Raise or lower all four corners of a tile by one unit
+     * @returns the tiles whose corner heights changed
+     */
+    public adjustTile(x: number, y: number, delta: number): GridPosition[] {
+        return this.setVertexHeights(CORNER_OFFSETS.map(offset => ({
+            x: x + offset.x,
+            y: y + offset.y,
+            height: this.getVertexHeight(x + offset.x, y + offset.y) + delta,
+        })));
+    }
+
+    /**
+     * Raise or lower a group of vertices together, such as those under a brush
+     * @returns the tiles whose corner heights changed
+     */
+    public adjustVertices(vertices: GridPosition[], delta: number): GridPosition[] {
+        return this.setVertexHeights(vertices.map(({ x, y }) => ({ x, y, height: this.getVertexHeight(x, y) + delta })));
+    }
+
+    /**
+     * Bring a group of vertices to the same height
+     * @returns the tiles whose corner heights changed
+     */
+    public flattenVertices(vertices: GridPosition[], height: number): GridPosition[] {
+        return this.setVertexHeights(vertices.map(({ x, y }) => ({ x, y, height })));
+    }
+
+    /**
+     * Move each vertex in a group to the rounded average of itself and its eight neighbours,
+     * all read before any of them change
+     * @returns the tiles whose corner heights changed
+     */
+    public smoothVertices(vertices: GridPosition[]): GridPosition[] {
+        return this.setVertexHeights(vertices.map(({ x, y }) => {
+            let total = 0;
+            let count = 0;
+            for (let dy = -1; dy <= 1; dy++) {
+                for (let dx = -1; dx <= 1; dx++) {
+                    if (!this.isInBounds(x + dx, y + dy)) continue;
+                    total += this.getVertexHeight(x + dx, y + dy);
+                    count++;
+                }
+            }
+
+            return { x, y, height: Math.round(total / count) };
+        }));
+    }
+
+    /**
+     * Check whether a vertex is a corner of a tile with a building or road, whose ground must not move:
+     * buildings need it flat, and roads need the slope they were laid on
      */
-    public generateRandom(): void {
-        this.tiles.clear();
-        
+    public isVertexProtected(vx: number, vy: number): boolean {
+        // A vertex is the N, E, S and W corner of these four tiles respectively
+        for (let y = vy - 1; y <= vy; y++) {
+            for (let x = vx - 1; x <= vx; x++) {
+                if (!this.isInBounds(x, y)) continue;
+                if (this.getBuildingIdAt(x, y) !== 0 || this.hasRoad(x, y)) return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Set the heights of a group of vertices, then propagate the change outward
+     * so that no two neighbouring corners differ by more than one unit.
+     * The ground under buildings and roads must not move, so target vertices under one are skipped,
+     * and nothing changes if keeping the slope limit would move one.
+     * @returns the tiles whose corner heights changed
+     */
+    public setVertexHeights(targets: (GridPosition & { height: number })[]): GridPosition[] {
+        // New heights by vertex index, written only once the whole edit is known to be allowed
+        const planned = new Map<number, number>();
+        const heightAt = (index: number) =>
+            planned.get(index) ?? this.getVertexHeight(index % this.width, Math.floor(index / this.width));
+        const queue: number[] = [];
+
+        for (const target of targets) {
+            const vx = Math.max(0, Math.min(this.width - 1, target.x));
+            const vy = Math.max(0, Math.min(this.height - 1, target.y));
+            const height = Math.max(0, Math.min(MAX_TERRAIN_HEIGHT, target.height));
+            const index = vy * this.width + vx;
+
+            if (heightAt(index) === height || this.isVertexProtected(vx, vy)) continue;
+
+            planned.set(index, height);
+            queue.push(index);
+        }
+
+        // Breadth-first walk pulling neighbours to within one unit
+        for (let head = 0; head < queue.length; head++) {
+            const vx = queue[head] % this.width;
+            const vy = Math.floor(queue[head] / this.width);
+            const height = heightAt(queue[head]);
+
+            for (const [dx, dy] of NEIGHBOUR_OFFSETS) {
+                const nx = vx + dx;
+                const ny = vy + dy;
+                if (!this.isInBounds(nx, ny)) continue;
+
+                const index = ny * this.width + nx;
+                const neighbourHeight = heightAt(index);
+                const clamped = Math.max(height - 1, Math.min(height + 1, neighbourHeight));
+                if (clamped === neighbourHeight) continue;
+                if (this.isVertexProtected(nx, ny)) return [];
+
+                planned.set(index, clamped);
+                queue.push(index);
+            }
+        }
+
+        for (const [index, height] of planned) {
+            this.writeVertexHeight(index % this.width, Math.floor(index / this.width), height);
+        }
+
+        return this.getTilesTouchingVertices(new Set(planned.keys()));
+    }
+
+    /**
+     * Get every tile that has one of the given vertices as a corner
+     * @param vertices - vertex indices, encoded as y * width + x
+     */
+    private getTilesTouchingVertices(vertices: Set<number>): GridPosition[] {
+        const tiles = new Map<number, GridPosition>();
+
+        for (const index of vertices) {
+            const vx = index % this.width;
+            const vy = Math.floor(index / this.width);
+
+            // A vertex is the N, E, S and W corner of these four tiles respectively
+            for (let y = vy - 1; y <= vy; y++) {
+                for (let x = vx - 1; x <= vx; x++) {
+                    if (x < 0 || y < 0 || x >= this.width || y >= this.height) continue;
+                    tiles.set(y * this.width + x, { x, y });
+                }
+            }
+        }
+
+        return [...tiles.values()];
+    }
+
+    /**
+     * Start keeping the original state of every tile and building that changes,
+     * so a group of edits can be reverted later
+     */
+    public beginRecording(): void {
+        this.recording = { tiles: new Map(), buildings: new Map() };
+    }
+
+    /**
+     * Stop recording changes
+     * @returns the original state of everything that changed
+     */
+    public endRecording(): WorldRecording {
+        const recorded = this.recording ?? { tiles: new Map(), buildings: new Map() };
+        this.recording = null;
+        return recorded;
+    }
+
+    /**
+     * Check whether changes are being recorded
+     */
+    public isRecording(): boolean {
+        return this.recording !== null;
+    }
+
+    /**
+     * Remember a tile's state before its first change in the current recording
+     */
+    private recordTile(x: number, y: number): void {
+        if (!this.recording) return;
+
+        const key = y * this.width + x;
+        if (!this.recording.tiles.has(key)) {
+            this.recording.tiles.set(key, this.getTile(x, y)!);
+        }
+    }
+
+    /**
+     * Fill the world using a generator, replacing all existing tiles,
+     * then flood everything below sea level
+     */
+    public generate(generator: WorldGenerator): void {
+        for (const chunk of this.chunks) {
+            chunk.clear();
+        }
+        this.buildings.clear();
+        this.nextBuildingId = 1;
+
+        generator.generate(this);
+
         for (let y = 0; y < this.height; y++) {
             for (let x = 0; x < this.width; x++) {
-                const tile: Tile = {
-                    type: Math.floor(Math.random() * 4),
-                    northCornerHeight: 0,
-                    x,
-                    y,
-                };
-                this.setTile(x, y, tile);
+                if (this.isSubmergedAt(x, y, this.seaLevel)) {
+                    this.setWaterLevel(x, y, this.seaLevel);
+                }
+            }
+        }
+    }
+
+    /**
+     * Check whether a tile would be submerged by water at the given level:
+     * some corner lies below the surface and none stick out above it
+     */
+    public isSubmergedAt(x: number, y: number, level: number): boolean {
+        const [n, e, s, w] = this.getTileCornerHeights(x, y);
+        return Math.min(n, e, s, w) < level && Math.max(n, e, s, w) <= level;
+    }
+
+    /**
+     * Recalculate water after terrain changes. Every tile below sea level floods,
+     * whether or not it touches other water, and tiles raised out of the water dry up.
+     * @returns tiles whose water changed, plus their neighbours whose shorelines changed
+     */
+    public updateWater(tiles: GridPosition[]): GridPosition[] {
+        const changed = new Set<number>();
+
+        for (const { x, y } of tiles) {
+            const level = this.isSubmergedAt(x, y, this.seaLevel) ? this.seaLevel : 0;
+            if (level === this.getWaterLevel(x, y)) continue;
+
+            this.setWaterLevel(x, y, level);
+            changed.add(y * this.width + x);
+        }
+
+        const result = new Map<number, GridPosition>();
+        for (const key of changed) {
+            const x = key % this.width;
+            const y = Math.floor(key / this.width);
+            for (const [dx, dy] of [[0, 0], ...NEIGHBOUR_OFFSETS]) {
+                if (this.isInBounds(x + dx, y + dy)) {
+                    result.set((y + dy) * this.width + x + dx, { x: x + dx, y: y + dy });
+                }
             }
         }
+
+        return [...result.values()];
     }
 }
+
+/**
+ * Get the connections each tile of a path needs to join its neighbours in the path
+ * @returns RoadDirection bitmask per path tile
+ */
+export function getRoadPathMasks(path: GridPosition[]): number[] {
+    const masks = path.map(() => 0);
+
+    for (let i = 1; i < path.length; i++) {
+        const edge = EDGE_OFFSETS.findIndex(offset =>
+            offset.x === path[i].x - path[i - 1].x && offset.y === path[i].y - path[i - 1].y);
+        if (edge === -1) continue;
+
+        masks[i - 1] |= 1 << edge;
+        masks[i] |= 1 << ((edge + 2) % 4);
+    }
+
+    return masks;
+}
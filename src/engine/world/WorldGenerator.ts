@@ -0,0 +1,10 @@
+import type { WorldData } from "./WorldData";
+
+/**
+ * Fills a world with terrain. Implementations must be deterministic for a
+ * given configuration so that worlds can be reproduced.
+ */
+export interface WorldGenerator {
+    /** Write tile types and corner heights into an empty world */
+    generate(world: WorldData): void;
+}
@@ -0,0 +1,166 @@
+import { base64ToBytes, bytesToBase64, runLengthDecode, runLengthEncode } from "../utils/encoding";
+import { WorldData } from "./WorldData";
+import type { Building } from "./WorldData";
+
+/**
+ * Identifies a file as a saved world
+ */
+export const SAVE_FORMAT = "kalarand-world";
+
+/**
+ * Current version of the save format. Bump it whenever WorldSave changes,
+ * and add a migration from the previous version to SAVE_MIGRATIONS.
+ */
+export const SAVE_FORMAT_VERSION = 2;
+
+/**
+ * A saved world, stored as JSON.
+ *
+ * Per-tile data is kept in layers: one byte per tile in row-major order
+ * (index y * width + x), run-length encoded as (count, value) byte pairs
+ * and then base64 encoded. Layers mirror the WorldChunk arrays:
+ * - types: TileType of each tile
+ * - heights: north corner height of each tile
+ * - water: water surface height, 0 for dry tiles
+ * - roads: RoadDirection bitmask of each tile's road connections
+ * - flags: TileFlags bits
+ *
+ * Buildings are stored as a list; the tiles they cover are rebuilt from it on load.
+ */
+export interface WorldSave {
+    format: typeof SAVE_FORMAT;
+    version: number;
+    width: number;
+    height: number;
+    seaLevel: number;
+    /** Seed the world was originally generated from, if any */
+    seed: string | null;
+    layers: Record<SaveLayer, string>;
+    buildings: Building[];
+    camera: { x: number; y: number; zoom: number };
+}
+
+/**
+ * Names of the per-tile layers in a save
+ */
+export type SaveLayer = "types" | "heights" | "water" | "roads" | "flags";
+
+const SAVE_LAYERS: SaveLayer[] = ["types", "heights", "water", "roads", "flags"];
+
+/**
+ * Upgrades from each older version to the next one, keyed by the version they upgrade from.
+ * Loading runs them in order until the save reaches SAVE_FORMAT_VERSION.
+ */
+const SAVE_MIGRATIONS: Record<number, (save: Record<string, unknown>) => Record<string, unknown>> = {
+    // Version 2 added buildings
+    1: save => ({ ...save, buildings: [] }),
+};
+
+/**
+ * Capture a world and camera as a save
+ */
+export function serializeWorld(world: WorldData, camera: WorldSave["camera"], seed: string | null): WorldSave {
+    const size = world.width * world.height;
+    const layers: Record<SaveLayer, Uint8Array> = {
+        types: new Uint8Array(size),
+        heights: new Uint8Array(size),
+        water: new Uint8Array(size),
+        roads: new Uint8Array(size),
+        flags: new Uint8Array(size),
+    };
+
+    world.forEachTile(tile => {
+        const index = tile.y * world.width + tile.x;
+        layers.types[index] = tile.type;
+        layers.heights[index] = tile.northCornerHeight;
+        layers.water[index] = tile.waterLevel;
+        layers.roads[index] = tile.roadMask;
+        layers.flags[index] = tile.flags;
+    });
+
+    const encoded = {} as Record<SaveLayer, string>;
+    for (const layer of SAVE_LAYERS) {
+        encoded[layer] = bytesToBase64(runLengthEncode(layers[layer]));
+    }
+
+    return {
+        format: SAVE_FORMAT,
+        version: SAVE_FORMAT_VERSION,
+        width: world.width,
+        height: world.height,
+        seaLevel: world.seaLevel,
+        seed,
+        layers: encoded,
+        buildings: world.getBuildings(),
+        camera: { x: camera.x, y: camera.y, zoom: camera.zoom },
+    };
+}
+
+/**
+ * Check a parsed save file and upgrade it to the current version
+ * @throws Error if the data is not a save, or is from a newer version
+ */
+export function migrateSave(data: unknown): WorldSave {
+    if (typeof data !== "object" || data === null || (data as Record<string, unknown>).format !== SAVE_FORMAT) {
+        throw new Error("Not a saved world");
+    }
+
+    let save = data as Record<string, unknown>;
+    if (typeof save.version !== "number" || save.version > SAVE_FORMAT_VERSION) {
+        throw new Error(`Unsupported save version ${save.version}; this game reads up to version ${SAVE_FORMAT_VERSION}`);
+    }
+
+    while ((save.version as number) < SAVE_FORMAT_VERSION) {
+        const migrate = SAVE_MIGRATIONS[save.version as number];
+        if (!migrate) {
+            throw new Error(`No migration from save version ${save.version}`);
+        }
+        save = { ...migrate(save), version: (save.version as number) + 1 };
+    }
+
+    return save as unknown as WorldSave;
+}
+
+/**
+ * Build world data from a save
+ * @throws Error if a layer is missing or does not match the world size
+ */
+export function deserializeWorld(save: WorldSave): WorldData {
+    const world = new WorldData(save.width, save.height);
+    world.seaLevel = save.seaLevel;
+
+    const size = save.width * save.height;
+    const layers = {} as Record<SaveLayer, Uint8Array>;
+    for (const layer of SAVE_LAYERS) {
+        const decoded = save.layers[layer] !== undefined
+            ? runLengthDecode(base64ToBytes(save.layers[layer]), size)
+            : null;
+        if (!decoded) {
+            throw new Error(`Save layer "${layer}" is missing or corrupt`);
+        }
+        layers[layer] = decoded;
+    }
+
+    for (let y = 0; y < save.height; y++) {
+        for (let x = 0; x < save.width; x++) {
+            const index = y * save.width + x;
+            world.setTile(x, y, {
+                type: layers.types[index],
+                northCornerHeight: layers.heights[index],
+                waterLevel: layers.water[index],
+                roadMask: layers.roads[index],
+                flags: layers.flags[index],
+                buildingId: 0,
+                x,
+                y,
+            });
+        }
+    }
+
+    for (const building of save.buildings) {
+        const { id, ...placement } = building;
+        world.placeBuilding(placement, id);
+    }
+
+    return world;
+}
@@ -0,0 +1,66 @@
+import { MAX_TERRAIN_HEIGHT, TileType } from "./WorldData";
+import type { Tile, WorldData } from "./WorldData";
+
+/**
+ * Flat colors used to draw each tile type in map overviews
+ */
+export const TILE_MAP_COLORS: Record<number, number> = {
+    [TileType.Sand]: 0xD8C48A,
+    [TileType.Grass]: 0x6AA84F,
+    [TileType.Water]: 0x3A6EA5,
+    [TileType.Rock]: 0x8A8A8A,
+};
+
+/**
+ * Map overview colors of water and roads, which are drawn over the tile type
+ */
+export const WATER_MAP_COLOR = 0x3A6EA5;
+export const ROAD_MAP_COLOR = 0x4A4A4A;
+
+/**
+ * Get a tile's overview color: water and roads over its type, brightened with height
+ */
+export function getTileMapColor(world: WorldData, tile: Tile): number {
+    if (tile.waterLevel > 0) return WATER_MAP_COLOR;
+    if (world.hasRoad(tile.x, tile.y)) return ROAD_MAP_COLOR;
+
+    const base = TILE_MAP_COLORS[tile.type] ?? 0xFF00FF;
+    const brightness = 0.75 + 0.4 * (tile.northCornerHeight / MAX_TERRAIN_HEIGHT);
+
+    const r = Math.min(255, Math.round(((base >> 16) & 0xFF) * brightness));
+    const g = Math.min(255, Math.round(((base >> 8) & 0xFF) * brightness));
+    const b = Math.min(255, Math.round((base & 0xFF) * brightness));
+    return (r << 16) | (g << 8) | b;
+}
+
+/**
+ * Draw a top-down overview of the world, one pixel per tile, scaled down to fit a square
+ * @param maxSize - Largest width or height of the image, in pixels
+ * @returns PNG image as a data URL
+ */
+export function createWorldThumbnail(world: WorldData, maxSize = 96): string {
+    const source = document.createElement("canvas");
+    source.width = world.width;
+    source.height = world.height;
+
+    const context = source.getContext("2d")!;
+    const image = context.createImageData(world.width, world.height);
+
+    world.forEachTile(tile => {
+        const color = getTileMapColor(world, tile);
+        const offset = (tile.y * world.width + tile.x) * 4;
+        image.data[offset] = (color >> 16) & 0xFF;
+        image.data[offset + 1] = (color >> 8) & 0xFF;
+        image.data[offset + 2] = color & 0xFF;
+        image.data[offset + 3] = 255;
+    });
+    context.putImageData(image, 0, 0);
+
+    const scale = Math.min(1, maxSize / Math.max(world.width, world.height));
+    const thumbnail = document.createElement("canvas");
+    thumbnail.width = Math.max(1, Math.round(world.width * scale));
+    thumbnail.height = Math.max(1, Math.round(world.height * scale));
+    thumbnail.getContext("2d")!.drawImage(source, 0, 0, thumbnail.width, thumbnail.height);
+
+    return thumbnail.toDataURL("image/png");
+}
@@ -0,0 +1,146 @@
+import type { WorldController } from "../WorldController";
+import type { Building, GridPosition } from "../WorldData";
+import { BUILDING_FACINGS, getRotatedFootprint } from "../BuildingRegistry";
+import type { BuildingDefinition } from "../BuildingRegistry";
+import type { InputAction } from "../../input/keyBindings";
+import type { Tool, ToolPointerEvent } from "./Tool";
+
+/**
+ * Colors for the footprint preview, depending on whether the building can be placed there
+ */
+const FOOTPRINT_PREVIEW_COLORS = { valid: 0x80FF80, invalid: 0xFF6060 };
+
+/**
+ * Places buildings from the building registry, previewing them under the pointer.
+ * The rotate-building action turns the building; previous-option and next-option pick another building.
+ */
+export class BuildingTool implements Tool {
+    public readonly id: string;
+    private world: WorldController;
+    /** Index of the selected building in the registry */
+    private definitionIndex = 0;
+    /** Index into BUILDING_FACINGS */
+    private facingIndex = 0;
+    /** Tile under the pointer, null when outside the map */
+    private hovered: GridPosition | null = null;
+    /** Whether the preview needs redrawing */
+    private isDirty = false;
+
+    constructor(world: WorldController, id = 'place-building') {
+        this.world = world;
+        this.id = id;
+    }
+
+    public onActivate(): void {
+        this.isDirty = true;
+    }
+
+    public onDeactivate(): void {
+        this.hovered = null;
+        this.isDirty = true;
+        this.drawPreview();
+    }
+
+    public onPointerDown(event: ToolPointerEvent): void {
+        if (event.button !== 0 || !event.tile) return;
+
+        this.hovered = event.tile;
+        const placement = this.getPlacement();
+        const worldData = this.world.getWorldData();
+        if (!placement || worldData.getBuildingPlacementProblem(placement.x, placement.y, placement.width, placement.height)) return;
+
+        this.world.refreshTiles(worldData.placeBuilding(placement));
+        this.isDirty = true;
+    }
+
+    public onPointerMove(event: ToolPointerEvent): void {
+        this.hovered = event.tile;
+        this.isDirty = true;
+    }
+
+    public onAction(action: InputAction): boolean {
+        const count = this.world.getBuildingRegistry().getAll().length;
+
+        switch (action) {
+            case 'rotate-building':
+                this.facingIndex = (this.facingIndex + 1) % BUILDING_FACINGS.length;
+                break;
+            case 'previous-option':
+                if (count === 0) return false;
+                this.definitionIndex = (this.definitionIndex + count - 1) % count;
+                break;
+            case 'next-option':
+                if (count === 0) return false;
+                this.definitionIndex = (this.definitionIndex + 1) % count;
+                break;
+            default:
+                return false;
+        }
+
+        this.isDirty = true;
+        return true;
+    }
+
+    public drawPreview(): void {
+        if (!this.isDirty) return;
+        this.isDirty = false;
+
+        const renderer = this.world.getRenderer();
+        const placement = this.getPlacement();
+        if (!placement) {
+            renderer.setBuildingGhost(null, false);
+            renderer.setFootprint([], FOOTPRINT_PREVIEW_COLORS.valid);
+            return;
+        }
+
+        const valid = this.getPlacementProblem() === null;
+        const footprint: GridPosition[] = [];
+        for (let y = placement.y; y < placement.y + placement.height; y++) {
+            for (let x = placement.x; x < placement.x + placement.width; x++) {
+                footprint.push({ x, y });
+            }
+        }
+
+        renderer.setBuildingGhost(placement, valid);
+        renderer.setFootprint(footprint, valid ? FOOTPRINT_PREVIEW_COLORS.valid : FOOTPRINT_PREVIEW_COLORS.invalid);
+    }
+
+    /**
+     * Get the building that will be placed
+     */
+    public getDefinition(): BuildingDefinition | undefined {
+        const definitions = this.world.getBuildingRegistry().getAll();
+        return definitions[this.definitionIndex % Math.max(1, definitions.length)];
+    }
+
+    /**
+     * Explain why the building cannot be placed under the pointer
+     * @returns the reason, or null if it can be placed
+     */
+    public getPlacementProblem(): string | null {
+        const placement = this.getPlacement();
+        if (!placement) return this.getDefinition() ? "Outside the map" : "No buildings available";
+
+        return this.world.getWorldData().getBuildingPlacementProblem(placement.x, placement.y, placement.width, placement.height);
+    }
+
+    /**
+     * Get the building as it would be placed, centred on the tile under the pointer
+     */
+    private getPlacement(): Omit<Building, "id"> | null {
+        const definition = this.getDefinition();
+        if (!definition || !this.hovered) return null;
+
+        const facing = BUILDING_FACINGS[this.facingIndex];
+        const size = getRotatedFootprint(definition.footprint, facing);
+
+        return {
+            type: definition.id,
+            x: this.hovered.x - Math.floor((size.x - 1) / 2),
+            y: this.hovered.y - Math.floor((size.y - 1) / 2),
+            width: size.x,
+            height: size.y,
+            facing,
+        };
+    }
+}
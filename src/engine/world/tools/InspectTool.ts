@@ -0,0 +1,51 @@
+import type { WorldController } from "../WorldController";
+import type { GridPosition } from "../WorldData";
+import type { InputAction } from "../../input/keyBindings";
+import type { Tool, ToolPointerEvent } from "./Tool";
+
+/**
+ * Tint for the tile selected by the inspect tool
+ */
+const INSPECT_COLOR = 0x80C0FF;
+
+/**
+ * Selects a tile on click so its details can be shown
+ */
+export class InspectTool implements Tool {
+    public readonly id: string;
+    private world: WorldController;
+    private selectedTile: GridPosition | null = null;
+
+    constructor(world: WorldController, id = 'inspector') {
+        this.world = world;
+        this.id = id;
+    }
+
+    /**
+     * Get the selected tile, if any
+     */
+    public getSelectedTile(): GridPosition | null {
+        return this.selectedTile;
+    }
+
+    public onDeactivate(): void {
+        this.selectedTile = null;
+        this.world.getRenderer().setHighlightedTiles([], INSPECT_COLOR);
+    }
+
+    public onPointerDown(event: ToolPointerEvent): void {
+        if (event.button !== 0 || !event.tile) return;
+
+        this.selectedTile = event.tile;
+        this.world.getRenderer().setHighlightedTiles([event.tile], INSPECT_COLOR);
+    }
+
+    public onAction(action: InputAction): boolean {
+        // Cancelling clears the selection before it leaves the tool
+        if (action === 'cancel' && this.selectedTile) {
+            this.onDeactivate();
+            return true;
+        }
+        return false;
+    }
+}
@@ -0,0 +1,121 @@
+import type { WorldController } from "../WorldController";
+import type { GridPosition } from "../WorldData";
+import { planRoadRoute } from "../RoadPlanner";
+import type { InputAction } from "../../input/keyBindings";
+import type { Tool, ToolPointerEvent } from "./Tool";
+
+/**
+ * Tints for the road preview while dragging, depending on whether the route can be built
+ */
+const ROAD_PREVIEW_COLORS = { valid: 0x80FF80, invalid: 0xFF6060 };
+
+/**
+ * Draws roads by dragging from one tile to another
+ */
+export class RoadTool implements Tool {
+    public readonly id: string;
+    private world: WorldController;
+    /** Tile where the current drag started, null when not dragging */
+    private start: GridPosition | null = null;
+    /** Tile the route was last planned to */
+    private end: GridPosition | null = null;
+    /** Route of the current drag, null when no route can be built */
+    private route: GridPosition[] | null = null;
+    /** Routes already planned from the drag start, by end tile index, so hovering back over a tile is free */
+    private plannedRoutes = new Map<number, GridPosition[] | null>();
+    /** Whether the preview needs redrawing */
+    private isDirty = false;
+
+    constructor(world: WorldController, id = 'draw-road') {
+        this.world = world;
+        this.id = id;
+    }
+
+    public onDeactivate(): void {
+        this.cancel();
+    }
+
+    public onPointerDown(event: ToolPointerEvent): void {
+        // Any other button cancels a drag in progress
+        if (event.button !== 0) {
+            this.cancel();
+            return;
+        }
+        if (!event.tile) return;
+
+        this.start = event.tile;
+        this.end = null;
+        this.plannedRoutes.clear();
+        this.planTo(event.tile);
+    }
+
+    public onPointerMove(event: ToolPointerEvent): void {
+        if (this.start && event.tile) {
+            this.planTo(event.tile);
+        }
+    }
+
+    public onPointerUp(event: ToolPointerEvent): void {
+        if (event.button !== 0 || !this.start) return;
+
+        const route = this.route;
+        this.cancel();
+
+        if (route) {
+            this.world.refreshTiles(this.world.getWorldData().buildRoad(route));
+        }
+    }
+
+    public onAction(action: InputAction): boolean {
+        if (action === 'cancel' && this.start) {
+            this.cancel();
+            return true;
+        }
+        return false;
+    }
+
+    public drawPreview(): void {
+        if (!this.isDirty) return;
+        this.isDirty = false;
+
+        const renderer = this.world.getRenderer();
+        if (!this.start || !this.end) {
+            renderer.setHighlightedTiles([], ROAD_PREVIEW_COLORS.valid);
+        }
+        else if (this.route) {
+            renderer.setHighlightedTiles(this.route, ROAD_PREVIEW_COLORS.valid);
+        }
+        else {
+            renderer.setHighlightedTiles([this.start, this.end], ROAD_PREVIEW_COLORS.invalid);
+        }
+    }
+
+    /**
+     * Re-plan the route from the drag start to a tile
+     */
+    private planTo(tile: GridPosition): void {
+        if (!this.start || (this.end && this.end.x === tile.x && this.end.y === tile.y)) return;
+
+        const worldData = this.world.getWorldData();
+        const key = tile.y * worldData.width + tile.x;
+        if (!this.plannedRoutes.has(key)) {
+            this.plannedRoutes.set(key, planRoadRoute(worldData, this.start, tile));
+        }
+
+        this.end = tile;
+        this.route = this.plannedRoutes.get(key) ?? null;
+        this.isDirty = true;
+    }
+
+    /**
+     * Abandon any drag in progress and clear its preview
+     */
+    private cancel(): void {
+        this.start = null;
+        this.end = null;
+        this.route = null;
+        this.plannedRoutes.clear();
+        this.isDirty = true;
+        this.drawPreview();
+    }
+}
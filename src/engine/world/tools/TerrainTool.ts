@@ -0,0 +1,215 @@
+import type { WorldController } from "../WorldController";
+import type { GridPosition } from "../WorldData";
+import type { TerrainBrush } from "../TerrainBrush";
+import type { InputAction } from "../../input/keyBindings";
+import type { Tool, ToolPointerEvent } from "./Tool";
+
+/**
+ * How a terrain tool changes the ground under its brush
+ */
+export type TerrainMode = "raise" | "lower" | "flatten" | "smooth" | "level";
+
+/**
+ * Color of the brush outline
+ */
+const BRUSH_COLOR = 0x80C0FF;
+
+/**
+ * Edits the terrain under a brush, applying again as the pointer is dragged onto new tiles.
+ * Raising and lowering with the smallest brush edit the corner, edge or tile under the cursor.
+ * The previous-option and next-option actions resize the brush, brush-shape switches between
+ * square and circle, and the target height actions change the height the level tool works to.
+ */
+export class TerrainTool implements Tool {
+    public readonly id: string;
+    private world: WorldController;
+    private mode: TerrainMode;
+    private brush: TerrainBrush;
+    /** Tile under the pointer, null when outside the map */
+    private hovered: GridPosition | null = null;
+    /** Height the flatten tool works to, sampled where the drag started; null when not dragging */
+    private strokeHeight: number | null = null;
+    /** Where the brush was last applied during the current drag, so it is applied once per position */
+    private lastAppliedKey: string | null = null;
+    /** Whether the brush outline needs redrawing */
+    private isDirty = false;
+
+    constructor(world: WorldController, id: string, mode: TerrainMode, brush: TerrainBrush) {
+        this.world = world;
+        this.id = id;
+        this.mode = mode;
+        this.brush = brush;
+    }
+
+    /**
+     * Corners and edges are only marked while they are what the tool edits
+     */
+    public get hoverCorners(): boolean {
+        return this.editsCorners();
+    }
+
+    public onActivate(): void {
+        this.isDirty = true;
+    }
+
+    public onDeactivate(): void {
+        this.endDrag();
+        this.hovered = null;
+        this.isDirty = true;
+        this.drawPreview();
+    }
+
+    public onPointerDown(event: ToolPointerEvent): void {
+        if (event.button !== 0 || !event.tile) return;
+
+        this.strokeHeight = this.sampleHeight(event);
+        this.lastAppliedKey = null;
+        this.apply(event);
+    }
+
+    public onPointerMove(event: ToolPointerEvent): void {
+        this.hovered = event.tile;
+        this.isDirty = true;
+
+        if (this.strokeHeight !== null && event.tile) {
+            this.apply(event);
+        }
+    }
+
+    public onPointerUp(event: ToolPointerEvent): void {
+        if (event.button === 0) {
+            this.endDrag();
+        }
+    }
+
+    public onAction(action: InputAction): boolean {
+        switch (action) {
+            case 'previous-option':
+                this.brush.resize(-1);
+                break;
+            case 'next-option':
+                this.brush.resize(1);
+                break;
+            case 'brush-shape':
+                this.brush.toggleShape();
+                break;
+            case 'target-height-down':
+                if (this.mode !== 'level') return false;
+                this.brush.adjustTargetHeight(-1);
+                break;
+            case 'target-height-up':
+                if (this.mode !== 'level') return false;
+                this.brush.adjustTargetHeight(1);
+                break;
+            default:
+                return false;
+        }
+
+        this.isDirty = true;
+        return true;
+    }
+
+    public drawPreview(): void {
+        if (!this.isDirty) return;
+        this.isDirty = false;
+
+        // Corner edits are shown by the hover marker instead
+        const footprint = this.hovered && !this.editsCorners()
+            ? this.brush.getTiles(this.world.getWorldData(), this.hovered)
+            : [];
+        this.world.getRenderer().setFootprint(footprint, BRUSH_COLOR);
+    }
+
+    /**
+     * Whether the tool edits the single corner, edge or tile under the cursor rather than a brush
+     */
+    private editsCorners(): boolean {
+        return (this.mode === 'raise' || this.mode === 'lower') && this.brush.radius === 0;
+    }
+
+    private endDrag(): void {
+        this.strokeHeight = null;
+        this.lastAppliedKey = null;
+    }
+
+    /**
+     * Get the ground height under the pointer: the hovered corner's, or the tile's rounded average
+     */
+    private sampleHeight(event: ToolPointerEvent): number {
+        if (!event.tile) return 0;
+
+        const worldData = this.world.getWorldData();
+        if (event.corner !== null) {
+            return worldData.getCornerHeight(event.tile.x, event.tile.y, event.corner);
+        }
+
+        const corners = worldData.getTileCornerHeights(event.tile.x, event.tile.y);
+        return Math.round(corners.reduce((sum, height) => sum + height, 0) / corners.length);
+    }
+
+    /**
+     * Edit the terrain at the pointer, unless already done at this position during the drag
+     */
+    private apply(event: ToolPointerEvent): void {
+        if (!event.tile) return;
+
+        const editsCorners = this.editsCorners();
+        const key = editsCorners
+            ? `${event.tile.x},${event.tile.y},${event.corner},${event.edge}`
+            : `${event.tile.x},${event.tile.y}`;
+        if (key === this.lastAppliedKey) return;
+        this.lastAppliedKey = key;
+
+        const changed = editsCorners ? this.editCorner(event) : this.editBrush(event.tile);
+
+        // Flood or drain the edited tiles, then redraw everything that changed
+        const worldData = this.world.getWorldData();
+        const watered = worldData.updateWater(changed);
+        this.world.refreshTiles([...changed, ...watered]);
+    }
+
+    /**
+     * Raise or lower the corner, edge or tile under the cursor
+     * @returns the tiles whose corner heights changed
+     */
+    private editCorner(event: ToolPointerEvent): GridPosition[] {
+        if (!event.tile) return [];
+
+        const { x, y } = event.tile;
+        const worldData = this.world.getWorldData();
+        const delta = this.mode === 'raise' ? 1 : -1;
+
+        // Near a corner or edge, edit just that; otherwise the whole tile
+        if (event.corner !== null) {
+            return worldData.adjustCorner(x, y, event.corner, delta);
+        }
+        if (event.edge !== null) {
+            return worldData.adjustEdge(x, y, event.edge, delta);
+        }
+        return worldData.adjustTile(x, y, delta);
+    }
+
+    /**
+     * Apply the tool's mode to every vertex under the brush.
+     * Neighbouring ground is pulled along so no slope gets steeper than one unit per tile;
+     * every mode goes through WorldData.setVertexHeights, which leaves the ground under buildings and roads alone.
+     * @returns the tiles whose corner heights changed
+     */
+    private editBrush(center: GridPosition): GridPosition[] {
+        const worldData = this.world.getWorldData();
+        const vertices = this.brush.getVertices(worldData, center);
+
+        switch (this.mode) {
+            case 'raise':
+                return worldData.adjustVertices(vertices, 1);
+            case 'lower':
+                return worldData.adjustVertices(vertices, -1);
+            case 'flatten':
+                return worldData.flattenVertices(vertices, this.strokeHeight ?? this.brush.targetHeight);
+            case 'smooth':
+                return worldData.smoothVertices(vertices);
+            case 'level':
+                return worldData.flattenVertices(vertices, this.brush.targetHeight);
+        }
+    }
+}
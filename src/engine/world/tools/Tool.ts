@@ -0,0 +1,51 @@
+import type { Coordinate } from "../IsometricUtils";
+import type { InputAction } from "../../input/keyBindings";
+import type { GridPosition } from "../WorldData";
+
+/**
+ * Pointer state passed to tools, already converted into world space
+ */
+export interface ToolPointerEvent {
+    /** Mouse button that changed, or -1 for moves */
+    button: number;
+    /** Position on the terrain surface under the pointer, or on the ground plane when outside the map */
+    world: Coordinate;
+    /** Tile under the pointer, or null when outside the map */
+    tile: GridPosition | null;
+    /** Corner of the tile the pointer is near (0=north, 1=east, 2=south, 3=west), or null */
+    corner: number | null;
+    /** Edge of the tile the pointer is near (indexed like EDGE_OFFSETS) when not near a corner, or null */
+    edge: number | null;
+    /** Position within the tile from its north corner, 0 to 1 along each axis, or null when outside the map */
+    local: Coordinate | null;
+}
+
+/**
+ * An interaction mode for the world, such as inspecting or drawing roads.
+ * Only the active tool receives input; all handlers are optional.
+ */
+export interface Tool {
+    /** Unique tool identifier, shared with the toolbar button that selects it */
+    readonly id: string;
+    /** Whether hovering marks the corner or edge under the pointer, for tools that edit them */
+    readonly hoverCorners?: boolean;
+
+    /** Called when the tool becomes the active tool */
+    onActivate?(): void;
+    /** Called when another tool becomes active; clear any preview or half-finished action */
+    onDeactivate?(): void;
+
+    onPointerDown?(event: ToolPointerEvent): void;
+    /** Called when the pointer moves onto a different tile */
+    onPointerMove?(event: ToolPointerEvent): void;
+    onPointerUp?(event: ToolPointerEvent): void;
+
+    /**
+     * Called for every action triggered by a key press while the tool is active
+     * @returns true if the tool handled the action, so it is not used for anything else
+     */
+    onAction?(action: InputAction): boolean;
+
+    /** Called once per frame to update any preview drawn by the tool */
+    drawPreview?(): void;
+}